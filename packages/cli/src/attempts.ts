@@ -0,0 +1,252 @@
+/**
+ * CLI - Attempt History
+ * What earlier iterations of a task tried, so retries don't start blind
+ */
+
+import { execa } from 'execa';
+import {
+    addMemoryEntry,
+    createMemoryBackend,
+    createMemoryEntry,
+    type DiffStat,
+    type HarnessConfig,
+    type IterationAttempt,
+    type MemoryEntry,
+    type Tokenizer,
+    type VerificationReport,
+} from '@opencode-harness/shared';
+import { describeFailure } from './verification.js';
+
+/** Longest summary, error or check excerpt kept per attempt */
+const MAX_DETAIL_CHARS = 300;
+
+/**
+ * Attempt Log
+ *
+ * Collects one record per iteration and renders them within a token budget:
+ * the newest attempts in full, older ones as one line, the rest counted.
+ */
+export function createAttemptLog(tokenizer: Tokenizer, budgetTokens: number) {
+    const attempts: IterationAttempt[] = [];
+
+    function record(attempt: IterationAttempt): void {
+        attempts.push(attempt);
+    }
+
+    function getAttempts(): IterationAttempt[] {
+        return [...attempts];
+    }
+
+    /**
+     * "Previous Attempts" prompt section, or '' before the first attempt.
+     * With `latestChecksShown`, the prompt carries the newest attempt's check
+     * output elsewhere, so its entry only names the failed checks.
+     */
+    function formatForPrompt(options: { latestChecksShown?: boolean } = {}): string {
+        if (attempts.length === 0) return '';
+
+        const header = [
+            '## Previous Attempts',
+            '',
+            'Earlier iterations of this task did not finish. Build on what they did and avoid repeating what failed.',
+        ].join('\n');
+
+        let used = tokenizer.count(header);
+        const blocks: string[] = [];
+        let omitted = 0;
+
+        // Newest first, so the most relevant attempts get the budget
+        const latest = attempts[attempts.length - 1];
+        for (const attempt of [...attempts].reverse()) {
+            if (omitted > 0) {
+                omitted++;
+                continue;
+            }
+
+            const full = formatAttempt(attempt, !(options.latestChecksShown && attempt === latest));
+            const brief = formatAttemptBrief(attempt);
+            const fullCost = tokenizer.count(full);
+            const briefCost = tokenizer.count(brief);
+
+            if (used + fullCost <= budgetTokens) {
+                blocks.unshift(full);
+                used += fullCost;
+            } else if (used + briefCost <= budgetTokens) {
+                blocks.unshift(brief);
+                used += briefCost;
+            } else {
+                omitted++;
+            }
+        }
+
+        const parts = [header, ''];
+        if (omitted > 0) parts.push(`(${omitted} earlier attempt${omitted === 1 ? '' : 's'} omitted)`, '');
+        parts.push(blocks.join('\n\n'));
+        return parts.join('\n');
+    }
+
+    return {
+        record,
+        getAttempts,
+        formatForPrompt,
+    };
+}
+
+export type AttemptLog = ReturnType<typeof createAttemptLog>;
+
+/**
+ * Failed checks from a verification report, with the first error-looking line of each
+ */
+export function summarizeFailedChecks(report: VerificationReport | null): IterationAttempt['failedChecks'] {
+    if (!report) return [];
+
+    return report.results
+        .filter((result) => !result.passed && !result.optional)
+        .map((result) => ({
+            name: result.name,
+            failure: describeFailure(result),
+            excerpt: firstErrorLine(result.output),
+        }));
+}
+
+/**
+ * Uncommitted changes against HEAD, or undefined outside a git repository
+ */
+export async function readDiffStat(cwd: string): Promise<DiffStat | undefined> {
+    const diff = await execa('git', ['diff', '--numstat', 'HEAD'], { cwd, reject: false });
+    if (diff.exitCode !== 0) return undefined;
+
+    const stat: DiffStat = { files: 0, insertions: 0, deletions: 0, paths: [] };
+    for (const line of diff.stdout.split('\n')) {
+        const [added, removed, path] = line.split('\t');
+        if (!path || isHarnessPath(path)) continue;
+        stat.files++;
+        stat.insertions += parseInt(added, 10) || 0;
+        stat.deletions += parseInt(removed, 10) || 0;
+        stat.paths.push(path);
+    }
+
+    const untracked = await execa('git', ['ls-files', '--others', '--exclude-standard'], { cwd, reject: false });
+    for (const path of untracked.stdout.split('\n')) {
+        if (!path.trim() || isHarnessPath(path)) continue;
+        stat.files++;
+        stat.paths.push(path.trim());
+    }
+
+    return stat;
+}
+
+/**
+ * "3 files, +40 −5 (a.ts, b.ts, c.ts)"
+ */
+export function formatDiffStat(diff: DiffStat): string {
+    if (diff.files === 0) return 'no changes';
+
+    const shown = diff.paths.slice(0, 5).join(', ');
+    const more = diff.paths.length > 5 ? `, +${diff.paths.length - 5} more` : '';
+    return `${diff.files} file${diff.files === 1 ? '' : 's'}, +${diff.insertions} −${diff.deletions} (${shown}${more})`;
+}
+
+/**
+ * Short description of a failed `opencode run` (execa's own message includes the whole prompt)
+ */
+export function describeRunError(error: unknown): string {
+    const err = error as Error & { timedOut?: boolean; exitCode?: number; stderr?: string };
+    if (err.timedOut) return 'OpenCode timed out';
+
+    const stderr = (err.stderr ?? '').trim().split('\n').filter(Boolean).pop();
+    const exit = typeof err.exitCode === 'number' ? `OpenCode exited with ${err.exitCode}` : err.message.split('\n')[0];
+    return truncate(stderr ? `${exit}: ${stderr}` : exit);
+}
+
+/**
+ * Save how the run ended: a `decision` memory on success, an `error` memory on failure
+ */
+export async function recordRunOutcome(
+    cwd: string,
+    config: HarnessConfig,
+    task: string,
+    attempts: IterationAttempt[],
+    success: boolean
+): Promise<MemoryEntry | null> {
+    if (!config.memory.enabled || attempts.length === 0) return null;
+
+    const last = attempts[attempts.length - 1];
+    const iterations = `${attempts.length} iteration${attempts.length === 1 ? '' : 's'}`;
+    const lines = success
+        ? [`Task "${task}" completed after ${iterations}.`]
+        : [`Task "${task}" did not complete after ${iterations} (last outcome: ${last.outcome}).`];
+
+    if (last.summary) lines.push(`Summary: ${last.summary}`);
+    if (!success) {
+        const errors = [...new Set(attempts.map((a) => a.error).filter(Boolean))];
+        if (errors.length > 0) lines.push(`Errors: ${errors.slice(-3).join('; ')}`);
+
+        const checks = [...new Set(attempts.flatMap((a) => a.failedChecks.map((c) => c.name)))];
+        if (checks.length > 0) lines.push(`Failing checks: ${checks.join(', ')}`);
+    } else if (attempts.length > 1) {
+        const retried = attempts.slice(0, -1).map((a) => a.failedChecks.map((c) => c.name).join(', ') || a.outcome);
+        lines.push(`Earlier attempts failed on: ${[...new Set(retried)].join('; ')}`);
+    }
+
+    const entry = createMemoryEntry(
+        'cli',
+        success ? 'decision' : 'error',
+        lines.join('\n'),
+        success ? 0.6 : 0.8,
+        { source: 'run', iterations: attempts.length, outcome: last.outcome }
+    );
+
+    const backend = createMemoryBackend(cwd, config.memory.backend);
+    await backend.update((store) => addMemoryEntry(store, entry));
+    return entry;
+}
+
+// Helpers
+
+function formatAttempt(attempt: IterationAttempt, withChecks: boolean): string {
+    const lines = [`### Attempt ${attempt.iteration}: ${attempt.outcome} (${formatDuration(attempt.durationMs)})`];
+    if (attempt.summary) lines.push(`- Agent summary: ${truncate(attempt.summary)}`);
+    if (attempt.error) lines.push(`- Error: ${truncate(attempt.error)}`);
+    if (!withChecks && attempt.failedChecks.length > 0) {
+        lines.push(`- Checks failed: ${attempt.failedChecks.map((c) => c.name).join(', ')} (output below)`);
+    }
+    for (const check of withChecks ? attempt.failedChecks : []) {
+        const excerpt = check.excerpt ? `: ${truncate(check.excerpt)}` : '';
+        lines.push(`- Check failed: ${check.name} (${check.failure})${excerpt}`);
+    }
+    if (attempt.diff) lines.push(`- Working tree after: ${formatDiffStat(attempt.diff)}`);
+    return lines.join('\n');
+}
+
+function formatAttemptBrief(attempt: IterationAttempt): string {
+    const details = [
+        attempt.error ? truncate(attempt.error, 80) : '',
+        attempt.failedChecks.length > 0 ? `checks: ${attempt.failedChecks.map((c) => c.name).join(', ')}` : '',
+        attempt.diff ? `${attempt.diff.files} files +${attempt.diff.insertions} −${attempt.diff.deletions}` : '',
+    ].filter(Boolean);
+    return `- Attempt ${attempt.iteration}: ${attempt.outcome}${details.length > 0 ? `; ${details.join('; ')}` : ''}`;
+}
+
+/**
+ * The harness's own state files aren't the agent's changes
+ */
+function isHarnessPath(path: string): boolean {
+    return path.trim().startsWith('.opencode/.harness/');
+}
+
+function firstErrorLine(output: string): string | undefined {
+    // Skip the "> script" lines npm echoes before running a script
+    const lines = output.split('\n').map((line) => line.trim()).filter((line) => line && !line.startsWith('>'));
+    return lines.find((line) => /error|fail|✗|expected|cannot|undefined/i.test(line)) ?? lines[lines.length - 1];
+}
+
+function truncate(text: string, max: number = MAX_DETAIL_CHARS): string {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    return flat.length > max ? `${flat.substring(0, max - 3)}...` : flat;
+}
+
+function formatDuration(ms: number): string {
+    const seconds = Math.round(ms / 1000);
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
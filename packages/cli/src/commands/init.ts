@@ -107,8 +107,9 @@ You have access to the \`context-nav\` tool for RLM-style context management:
 
 ## Memory Persistence
 
-Your decisions and findings are automatically saved. Before starting a new task:
-1. Check for relevant memories from past sessions
+Your decisions and findings are automatically saved, and the memories most relevant
+to your task are added to this prompt under "Relevant Memories". Before starting a new task:
+1. Review them, and use \`context-nav search\` for anything else relevant
 2. Avoid re-learning things you've already discovered
 3. Build upon previous work
 
@@ -153,15 +154,14 @@ agent: build
 
 # Context Compaction
 
-Check current context state with \`context-nav status\`.
+Check current context state with \`context-nav status\`. The harness compacts
+automatically when the threshold is crossed; status shows when and why it last ran.
 
-If compaction is needed:
-1. Review high-importance items
-2. Summarize recent work
-3. Save key findings to memory
+To compact now:
+1. Review high-importance items with \`context-nav important\`
+2. Run \`context-nav compact\` to snapshot them and session memories into a summary
+3. Summarize any recent work the snapshot missed
 4. Request a fresh context start
-
-Use \`context-nav important\` to see what should be preserved.
 `;
         await writeFile(join(cwd, '.opencode', 'commands', 'compact.md'), compactCommand);
 
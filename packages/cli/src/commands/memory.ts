@@ -0,0 +1,383 @@
+/**
+ * CLI Command: memory
+ * Inspect and curate persisted memories
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import chalk from 'chalk';
+import {
+    type MemoryEntry,
+    type MemoryFilter,
+    type MemoryStore,
+    type MemoryType,
+    MEMORY_TYPES,
+    addMemoryEntry,
+    createMemoryEntry,
+    createMemoryIndex,
+    createMemoryStore,
+    filterMemories,
+    findMemoryEntry,
+    getConfigPath,
+    getProjectId,
+    loadConfig,
+    parseMemoryStore,
+    removeMemoryEntries,
+    updateMemoryEntry,
+    createMemoryBackend,
+    MEMORY_BACKENDS,
+    type MemoryBackend,
+    type MemoryBackendKind,
+} from '@opencode-harness/shared';
+
+interface MemoryFilterOptions {
+    type?: string;
+    session?: string;
+    minImportance?: string;
+    since?: string;
+    until?: string;
+    pinned?: boolean;
+    limit?: string;
+    json?: boolean;
+}
+
+interface MemoryAddOptions {
+    type?: string;
+    importance?: string;
+    pin?: boolean;
+    json?: boolean;
+}
+
+interface MemoryEditOptions {
+    content?: string;
+    type?: string;
+    importance?: string;
+}
+
+interface MemoryPinOptions {
+    unpin?: boolean;
+}
+
+interface MemoryImportOptions {
+    replace?: boolean;
+}
+
+interface MemoryMigrateOptions {
+    to: string;
+}
+
+export async function memoryListCommand(options: MemoryFilterOptions): Promise<void> {
+    await run(async (cwd) => {
+        const store = await loadStore(cwd);
+        const entries = applyLimit(
+            filterMemories(store.entries, parseFilter(options)).sort((a, b) => b.timestamp - a.timestamp),
+            options.limit
+        );
+
+        if (options.json) {
+            console.log(JSON.stringify(entries, null, 2));
+            return;
+        }
+
+        if (entries.length === 0) {
+            console.log(chalk.gray('No memories match.'));
+            return;
+        }
+
+        for (const entry of entries) printEntry(entry);
+        console.log('');
+        console.log(chalk.gray(`${entries.length} of ${store.entries.length} memories`));
+    });
+}
+
+export async function memoryShowCommand(id: string, options: { json?: boolean }): Promise<void> {
+    await run(async (cwd) => {
+        const store = await loadStore(cwd);
+        const entry = requireEntry(store, id);
+
+        if (options.json) {
+            console.log(JSON.stringify(entry, null, 2));
+            return;
+        }
+
+        console.log(chalk.bold('Memory ') + chalk.gray(entry.id));
+        console.log(chalk.gray('  Type: ') + chalk.white(entry.type));
+        console.log(chalk.gray('  Importance: ') + chalk.white(`${(entry.importance * 100).toFixed(0)}%`));
+        console.log(chalk.gray('  Pinned: ') + chalk.white(entry.pinned ? 'Yes' : 'No'));
+        console.log(chalk.gray('  Session: ') + chalk.white(entry.sessionId));
+        console.log(chalk.gray('  Created: ') + chalk.white(new Date(entry.timestamp).toLocaleString()));
+        if (entry.metadata && Object.keys(entry.metadata).length > 0) {
+            console.log(chalk.gray('  Metadata: ') + chalk.white(JSON.stringify(entry.metadata)));
+        }
+        console.log('');
+        console.log(entry.content);
+    });
+}
+
+export async function memorySearchCommand(query: string, options: MemoryFilterOptions): Promise<void> {
+    await run(async (cwd) => {
+        const store = await loadStore(cwd);
+        const candidates = filterMemories(store.entries, parseFilter(options));
+        const results = createMemoryIndex(candidates).search(query, {
+            limit: options.limit ? parseInt(options.limit, 10) : 10,
+        });
+
+        if (options.json) {
+            console.log(JSON.stringify(results.map((r) => ({ ...r.entry, score: r.score })), null, 2));
+            return;
+        }
+
+        if (results.length === 0) {
+            console.log(chalk.gray(`No memories found for: "${query}"`));
+            return;
+        }
+
+        for (const result of results) {
+            printEntry(result.entry, result.score);
+        }
+    });
+}
+
+export async function memoryAddCommand(content: string, options: MemoryAddOptions): Promise<void> {
+    await run(async (cwd) => {
+        const type = parseType(options.type || 'context');
+        const importance = options.importance !== undefined ? parseImportance(options.importance) : 0.7;
+
+        const entry: MemoryEntry = {
+            ...createMemoryEntry('cli', type, content, importance),
+            pinned: options.pin ? true : undefined,
+        };
+        const backend = await getBackend(cwd);
+        await backend.update((store) => addMemoryEntry(store, entry));
+
+        if (options.json) {
+            console.log(JSON.stringify(entry, null, 2));
+        } else {
+            console.log(chalk.green('✓ Added ') + chalk.gray(entry.id));
+        }
+    });
+}
+
+export async function memoryEditCommand(id: string, options: MemoryEditOptions): Promise<void> {
+    await run(async (cwd) => {
+        if (options.content === undefined && options.type === undefined && options.importance === undefined) {
+            throw new Error('Nothing to change. Use --content, --type or --importance');
+        }
+
+        let updated = '';
+        const backend = await getBackend(cwd);
+        await backend.update((store) => {
+            const entry = requireEntry(store, id);
+            updated = entry.id;
+            return updateMemoryEntry(store, entry.id, {
+                content: options.content ?? entry.content,
+                type: options.type ? parseType(options.type) : entry.type,
+                importance: options.importance !== undefined ? parseImportance(options.importance) : entry.importance,
+            });
+        });
+        console.log(chalk.green('✓ Updated ') + chalk.gray(updated));
+    });
+}
+
+export async function memoryDeleteCommand(ids: string[]): Promise<void> {
+    await run(async (cwd) => {
+        const backend = await getBackend(cwd);
+        await backend.update((store) =>
+            removeMemoryEntries(store, ids.map((id) => requireEntry(store, id).id))
+        );
+        console.log(chalk.green(`✓ Deleted ${ids.length} memor${ids.length === 1 ? 'y' : 'ies'}`));
+    });
+}
+
+export async function memoryPinCommand(id: string, options: MemoryPinOptions): Promise<void> {
+    await run(async (cwd) => {
+        let pinned = '';
+        const backend = await getBackend(cwd);
+        await backend.update((store) => {
+            const entry = requireEntry(store, id);
+            pinned = entry.id;
+            return updateMemoryEntry(store, entry.id, { pinned: options.unpin ? undefined : true });
+        });
+        console.log(chalk.green(options.unpin ? '✓ Unpinned ' : '📌 Pinned ') + chalk.gray(pinned));
+    });
+}
+
+export async function memoryExportCommand(file: string | undefined, options: MemoryFilterOptions): Promise<void> {
+    await run(async (cwd) => {
+        const store = await loadStore(cwd);
+        const exported: MemoryStore = {
+            ...store,
+            entries: filterMemories(store.entries, parseFilter(options)),
+        };
+        const content = JSON.stringify(exported, null, 2);
+
+        if (!file) {
+            console.log(content);
+            return;
+        }
+
+        await writeFile(file, content);
+        console.log(chalk.green(`✓ Exported ${exported.entries.length} memories to ${file}`));
+    });
+}
+
+export async function memoryImportCommand(file: string, options: MemoryImportOptions): Promise<void> {
+    await run(async (cwd) => {
+        if (!existsSync(file)) throw new Error(`File not found: ${file}`);
+
+        const incoming = parseMemoryStore(JSON.parse(await readFile(file, 'utf-8')), getProjectId(cwd));
+
+        let added = 0;
+        let replaced = 0;
+        const backend = await getBackend(cwd);
+        await backend.update((store) => {
+            const existingIds = new Set(store.entries.map((e) => e.id));
+            let next = store;
+            for (const entry of incoming.store.entries) {
+                if (!existingIds.has(entry.id)) {
+                    next = addMemoryEntry(next, entry);
+                    added++;
+                } else if (options.replace) {
+                    next = addMemoryEntry(removeMemoryEntries(next, [entry.id]), entry);
+                    replaced++;
+                }
+            }
+            return next;
+        });
+
+        const skipped = incoming.store.entries.length - added - replaced;
+        console.log(chalk.green(`✓ Imported ${added} memories`) +
+            (replaced > 0 ? chalk.gray(`, replaced ${replaced}`) : '') +
+            (skipped > 0 ? chalk.gray(`, skipped ${skipped} already present`) : ''));
+        if (incoming.rejected.length > 0) {
+            console.log(chalk.yellow(`⚠️  ${incoming.rejected.length} invalid entries in ${file} were ignored`));
+        }
+    });
+}
+
+export async function memoryMigrateCommand(options: MemoryMigrateOptions): Promise<void> {
+    await run(async (cwd) => {
+        if (!MEMORY_BACKENDS.includes(options.to as MemoryBackendKind)) {
+            throw new Error(`Unknown backend "${options.to}". Expected one of: ${MEMORY_BACKENDS.join(', ')}`);
+        }
+
+        const source = await getBackend(cwd);
+        if (source.kind === options.to) {
+            console.log(chalk.gray(`Memories already use the ${source.kind} backend.`));
+            return;
+        }
+
+        const result = await source.load();
+        const store = result ? result.store : createMemoryStore(getProjectId(cwd));
+        const target = createMemoryBackend(cwd, options.to as MemoryBackendKind);
+        if (target.exists()) {
+            const backupPath = await target.backup('pre-migrate');
+            console.log(chalk.gray(`Existing ${target.kind} data backed up to ${backupPath}`));
+        }
+        await target.replace(store);
+
+        // Switch the config over only once the new backend holds everything
+        const configPath = getConfigPath(cwd);
+        const config = JSON.parse(await readFile(configPath, 'utf-8'));
+        config.memory = { ...config.memory, backend: target.kind };
+        await writeFile(configPath, JSON.stringify(config, null, 2));
+
+        console.log(chalk.green(`✓ Migrated ${store.entries.length} memories from ${source.kind} to ${target.kind}`));
+        console.log(chalk.gray(`  ${source.path} was left in place; delete it once you are happy with the move`));
+    });
+}
+
+// Helpers
+
+async function run(action: (cwd: string) => Promise<void>): Promise<void> {
+    const cwd = process.cwd();
+
+    if (!existsSync(getConfigPath(cwd))) {
+        console.log(chalk.yellow('⚠️  Harness not initialized. Run ') + chalk.cyan('oc-harness init') + chalk.yellow(' first.'));
+        return;
+    }
+
+    try {
+        await action(cwd);
+    } catch (error) {
+        console.log(chalk.red(`❌ ${(error as Error).message}`));
+        process.exitCode = 1;
+    }
+}
+
+async function getBackend(cwd: string): Promise<MemoryBackend> {
+    return createMemoryBackend(cwd, (await loadConfig(cwd)).memory.backend);
+}
+
+async function loadStore(cwd: string): Promise<MemoryStore> {
+    const result = await (await getBackend(cwd)).load();
+    return result ? result.store : createMemoryStore(getProjectId(cwd));
+}
+
+function requireEntry(store: MemoryStore, id: string): MemoryEntry {
+    const entry = findMemoryEntry(store, id);
+    if (!entry) throw new Error(`No memory matches id "${id}"`);
+    return entry;
+}
+
+function parseFilter(options: MemoryFilterOptions): MemoryFilter {
+    return {
+        types: options.type ? options.type.split(',').map((t) => parseType(t.trim())) : undefined,
+        sessionId: options.session,
+        minImportance: options.minImportance !== undefined ? parseImportance(options.minImportance) : undefined,
+        since: options.since ? parseDate(options.since) : undefined,
+        until: options.until ? parseDate(options.until) : undefined,
+        pinned: options.pinned,
+    };
+}
+
+function parseType(value: string): MemoryType {
+    if (!MEMORY_TYPES.includes(value as MemoryType)) {
+        throw new Error(`Unknown memory type "${value}". Expected one of: ${MEMORY_TYPES.join(', ')}`);
+    }
+    return value as MemoryType;
+}
+
+function parseImportance(value: string): number {
+    const importance = parseFloat(value);
+    if (Number.isNaN(importance) || importance < 0 || importance > 1) {
+        throw new Error(`Importance must be between 0 and 1, got "${value}"`);
+    }
+    return importance;
+}
+
+/**
+ * Accepts ISO dates or relative ages like 7d, 12h, 2w
+ */
+function parseDate(value: string): number {
+    const relative = value.match(/^(\d+)([hdw])$/);
+    if (relative) {
+        const hours = { h: 1, d: 24, w: 24 * 7 }[relative[2] as 'h' | 'd' | 'w'];
+        return Date.now() - parseInt(relative[1], 10) * hours * 60 * 60 * 1000;
+    }
+
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) throw new Error(`Invalid date "${value}"`);
+    return time;
+}
+
+function applyLimit<T>(items: T[], limit: string | undefined): T[] {
+    return limit ? items.slice(0, parseInt(limit, 10)) : items;
+}
+
+function printEntry(entry: MemoryEntry, score?: number): void {
+    const pin = entry.pinned ? chalk.yellow('📌 ') : '';
+    const preview = entry.content.replace(/\s+/g, ' ');
+    const details = [
+        `${(entry.importance * 100).toFixed(0)}%`,
+        new Date(entry.timestamp).toLocaleDateString(),
+        ...(score !== undefined ? [`score ${score.toFixed(2)}`] : []),
+    ].join(' · ');
+
+    console.log(
+        chalk.gray(entry.id.substring(0, 8)) + ' ' +
+        chalk.cyan(`[${entry.type}]`) + ' ' +
+        pin + chalk.white(preview.length > 80 ? `${preview.substring(0, 77)}...` : preview) + ' ' +
+        chalk.gray(`(${details})`)
+    );
+}
@@ -5,21 +5,97 @@
 
 import { readFile } from 'fs/promises';
 import { existsSync } from 'fs';
-import { join } from 'path';
+import { join, relative } from 'path';
 import chalk from 'chalk';
 import ora from 'ora';
 import { parse as parseYaml } from 'yaml';
-import { execa } from 'execa';
-import type { Task, TaskList, TaskStatus } from '@opencode-harness/shared';
+import { execa, execaSync } from 'execa';
+import {
+    clearTaskResult,
+    loadConfig,
+    readTaskResult,
+    TASK_ID_ENV,
+    type HarnessConfig,
+    type Task,
+    type TaskList,
+    type TaskResult,
+    type TaskStatus,
+    type VerificationCommand,
+    type VerificationReport,
+} from '@opencode-harness/shared';
+import {
+    describeFailure,
+    formatVerificationForPrompt,
+    printVerificationReport,
+    resolveVerificationCommands,
+    runVerification,
+} from '../verification.js';
+import { buildTaskGraph, runTaskGraph, type TaskGraph, type TaskRunner } from '../scheduler.js';
+import {
+    canUseWorktrees,
+    createTaskBranch,
+    createTaskWorktree,
+    finishWorktree,
+    removeTaskWorktree,
+    type TaskWorktree,
+} from '../worktrees.js';
+import {
+    commitTaskChanges,
+    describeIntegration,
+    integrateTask,
+    isIntegrated,
+    type IntegrationOptions,
+    type IntegrationResult,
+} from '../integration.js';
+import { createProgressWriter, type ProgressWriter } from '../prd-progress.js';
+import { describeRunError } from '../attempts.js';
+import {
+    createRunLedger,
+    createRunRecord,
+    findRunToResume,
+    getRunTaskList,
+    reopenRun,
+    type RunLedger,
+    type RunRecord,
+} from '../run-ledger.js';
 
 interface PrdOptions {
     parallel?: boolean;
     maxParallel?: string;
     branchPerTask?: boolean;
     baseBranch?: string;
+    mergeStrategy?: string;
+    onConflict?: string;
+    verify?: boolean;
+    writeBack?: boolean;
+    resume?: boolean | string;
     verbose?: boolean;
 }
 
+/**
+ * Verification checks shared by every task in a PRD run
+ */
+interface TaskVerifier {
+    checks: VerificationCommand[];
+    config: HarnessConfig;
+    /** Parallel tasks sharing one working tree take turns running checks */
+    serialize: boolean;
+    queue: Promise<unknown>;
+}
+
+/**
+ * How finished task branches reach the base branch
+ */
+interface TaskIntegration {
+    baseBranch: string;
+    strategy: HarnessConfig['parallel']['mergeStrategy'];
+    onConflict: HarnessConfig['parallel']['onConflict'];
+    /** Merges into the main checkout happen one at a time */
+    queue: Promise<unknown>;
+    /** Task branch the main checkout is on, or being merged from, right now */
+    current: string | null;
+}
+
 export async function prdCommand(
     file: string | undefined,
     options: PrdOptions
@@ -32,8 +108,20 @@ export async function prdCommand(
         return;
     }
 
+    // Find the run to resume, if asked
+    let resumed: RunRecord | null = null;
+    if (options.resume) {
+        try {
+            resumed = await findRunToResume(cwd, options.resume);
+        } catch (error) {
+            console.log(chalk.red(`❌ ${(error as Error).message}`));
+            process.exitCode = 1;
+            return;
+        }
+    }
+
     // Find PRD file
-    const prdPath = file || findPrdFile(cwd);
+    const prdPath = resumed ? join(cwd, resumed.source) : file || findPrdFile(cwd);
     if (!prdPath) {
         console.log(chalk.red('❌ No PRD file found. Provide a file or create PRD.md/tasks.md'));
         return;
@@ -48,17 +136,31 @@ export async function prdCommand(
     const spinner = ora('Parsing PRD file...').start();
 
     try {
-        // Parse the PRD file
-        const content = await readFile(prdPath, 'utf-8');
-        const taskList = parsePrdFile(prdPath, content);
+        // Parse the PRD file, or pick up the tasks where the resumed run left them
+        let taskList: TaskList;
+        if (resumed) {
+            taskList = getRunTaskList(cwd, reopenRun(resumed, Boolean(options.parallel)));
+            spinner.succeed(`Resuming run ${resumed.id} (${taskList.tasks.length} tasks in ${resumed.source})`);
+        } else {
+            const content = await readFile(prdPath, 'utf-8');
+            taskList = parsePrdFile(prdPath, content);
+            spinner.succeed(`Found ${taskList.tasks.length} tasks in ${prdPath}`);
+        }
 
-        spinner.succeed(`Found ${taskList.tasks.length} tasks in ${prdPath}`);
+        let graph: TaskGraph;
+        try {
+            graph = buildTaskGraph(taskList.tasks);
+        } catch (error) {
+            console.log(chalk.red(`❌ ${(error as Error).message}`));
+            process.exit(1);
+        }
 
         console.log('');
         console.log(chalk.gray('Tasks:'));
         for (const task of taskList.tasks) {
             const status = task.status === 'completed' ? chalk.green('✓') : chalk.gray('○');
-            console.log(`  ${status} ${task.title}`);
+            const after = task.dependencies?.length ? chalk.gray(` (after: ${task.dependencies.join(', ')})`) : '';
+            console.log(`  ${status} ${task.title}${after}`);
         }
         console.log('');
 
@@ -70,18 +172,52 @@ export async function prdCommand(
             return;
         }
 
+        const config = await loadConfig(cwd);
+        const checks = options.verify === false
+            ? []
+            : await resolveVerificationCommands(cwd, config, { tests: true, lint: true });
+        const verifier: TaskVerifier = { checks, config, serialize: false, queue: Promise.resolve() };
+
+        let integration: TaskIntegration;
+        try {
+            integration = await resolveIntegration(cwd, config, options);
+        } catch (error) {
+            console.log(chalk.red(`❌ ${(error as Error).message}`));
+            process.exit(1);
+        }
+
         console.log(chalk.cyan(`Executing ${pendingTasks.length} pending tasks...`));
+        if (checks.length > 0) {
+            console.log(chalk.gray(`Verifying each task with: ${checks.map((c) => c.command).join(', ')}`));
+        }
         console.log('');
 
+        // Record every task transition, so the run can be inspected and resumed
+        const ledger = createRunLedger(cwd, resumed ?? createRunRecord(cwd, taskList, Boolean(options.parallel)));
+        await ledger.save();
+        const onInterrupt = () => {
+            ledger.interrupt();
+            console.log('');
+            restoreBaseBranch(cwd, integration);
+            console.log(chalk.yellow(`⚠️  Interrupted. Resume with `) + chalk.cyan(`oc-harness prd --resume ${ledger.run.id}`));
+            process.exit(130);
+        };
+        process.once('SIGINT', onInterrupt);
+        process.once('SIGTERM', onInterrupt);
+
         // Execute tasks
-        if (options.parallel) {
-            await executeParallel(pendingTasks, options, cwd);
-        } else {
-            await executeSequential(pendingTasks, options, cwd);
+        const progress = options.writeBack === false ? null : createProgressWriter(taskList);
+        try {
+            await executeTasks(graph, options, cwd, verifier, integration, progress, ledger);
+        } finally {
+            process.off('SIGINT', onInterrupt);
+            process.off('SIGTERM', onInterrupt);
         }
+        await ledger.finish();
 
         console.log('');
         console.log(chalk.green('✅ PRD execution complete!'));
+        console.log(chalk.gray(`Run ${ledger.run.id} recorded; inspect it with `) + chalk.cyan(`oc-harness runs show ${ledger.run.id}`));
 
     } catch (error) {
         spinner.fail(chalk.red('Failed to execute PRD'));
@@ -113,19 +249,32 @@ function parsePrdFile(path: string, content: string): TaskList {
     }
 }
 
+interface YamlTask {
+    id?: string | number;
+    title: string;
+    completed?: boolean;
+    /** Written back for failed tasks, with `retries` */
+    error?: string;
+    retries?: number;
+    depends_on?: string | number | Array<string | number>;
+    parallel_group?: number;
+}
+
 function parseYamlTasks(path: string, content: string): TaskList {
-    const data = parseYaml(content) as { tasks?: Array<{ title: string; completed?: boolean }> };
+    const data = parseYaml(content) as { tasks?: YamlTask[] };
 
     const tasks: Task[] = (data.tasks || []).map((item, index) => ({
-        id: `task-${index}`,
+        id: item.id !== undefined ? String(item.id) : `task-${index}`,
         title: item.title,
         status: item.completed ? 'completed' : 'pending' as TaskStatus,
+        parallelGroup: typeof item.parallel_group === 'number' ? item.parallel_group : undefined,
+        dependencies: item.depends_on !== undefined ? [item.depends_on].flat().map(String) : undefined,
         retries: 0,
         maxRetries: 3,
         createdAt: Date.now(),
     }));
 
-    return { source: path, format: 'yaml', tasks };
+    return { source: path, format: 'yaml', tasks: resolveDependencies(tasks) };
 }
 
 function parseMarkdownTasks(path: string, content: string): TaskList {
@@ -135,15 +284,18 @@ function parseMarkdownTasks(path: string, content: string): TaskList {
 
     for (const line of lines) {
         // Match checkbox patterns: - [ ] task or - [x] task
-        const match = line.match(/^[\s]*[-*]\s*\[([ xX])\]\s*(.+)$/);
+        const match = line.replace(/\r$/, '').match(/^[\s]*[-*]\s*\[([ xX])\]\s*(.+)$/);
         if (match) {
             const completed = match[1].toLowerCase() === 'x';
-            const title = match[2].trim();
+            const { title, annotations } = parseAnnotations(match[2]);
+            const group = annotations.group ?? annotations.parallel_group;
 
             tasks.push({
-                id: `task-${index}`,
+                id: annotations.id ?? `task-${index}`,
                 title,
                 status: completed ? 'completed' : 'pending' as TaskStatus,
+                parallelGroup: group !== undefined && !Number.isNaN(Number(group)) ? Number(group) : undefined,
+                dependencies: annotations.after?.split(',').map((id) => id.trim()).filter(Boolean),
                 retries: 0,
                 maxRetries: 3,
                 createdAt: Date.now(),
@@ -152,96 +304,475 @@ function parseMarkdownTasks(path: string, content: string): TaskList {
         }
     }
 
-    return { source: path, format: 'markdown', tasks };
+    return { source: path, format: 'markdown', tasks: resolveDependencies(tasks) };
 }
 
-async function executeSequential(
-    tasks: Task[],
+/**
+ * Pull `(after: a, b)`, `(id: x)` and `(group: n)` annotations out of a task title,
+ * along with the `(failed: …)` and `(retries: n)` ones written back after a run
+ */
+function parseAnnotations(text: string): { title: string; annotations: Record<string, string> } {
+    const annotations: Record<string, string> = {};
+    const title = text
+        .replace(/\s*\((after|id|group|parallel_group|failed|retries):\s*([^)]*)\)/gi, (_, key: string, value: string) => {
+            annotations[key.toLowerCase()] = value.trim();
+            return '';
+        })
+        .trim();
+    return { title, annotations };
+}
+
+/**
+ * Let dependencies name a task by id or by its slugified title
+ */
+function resolveDependencies(tasks: Task[]): Task[] {
+    const ids = new Set(tasks.map((task) => task.id));
+    const bySlug = new Map(tasks.map((task) => [slugify(task.title), task.id]));
+
+    for (const task of tasks) {
+        task.dependencies = task.dependencies?.map((ref) => (ids.has(ref) ? ref : bySlug.get(slugify(ref)) ?? ref));
+    }
+    return tasks;
+}
+
+/**
+ * Run pending tasks through the dependency scheduler (one at a time unless --parallel)
+ */
+async function executeTasks(
+    graph: TaskGraph,
     options: PrdOptions,
-    cwd: string
+    cwd: string,
+    verifier: TaskVerifier,
+    integration: TaskIntegration,
+    progress: ProgressWriter | null,
+    ledger: RunLedger
 ): Promise<void> {
-    for (let i = 0; i < tasks.length; i++) {
-        const task = tasks[i];
-        const spinner = ora(`[${i + 1}/${tasks.length}] ${task.title}`).start();
+    const maxParallel = options.parallel ? parseInt(options.maxParallel || '3', 10) : 1;
+    const pending = graph.tasks.filter((task) => task.status === 'pending');
+    let started = 0;
+
+    // Parallel agents each get their own worktree when possible
+    let isolate = false;
+    if (options.parallel && verifier.config.parallel.useWorktrees) {
+        isolate = await canUseWorktrees(cwd);
+        if (!isolate) {
+            console.log(chalk.yellow('⚠️  Not a git repository with commits; parallel tasks will share the working directory'));
+        }
+    }
+    verifier.serialize = Boolean(options.parallel) && !isolate;
 
-        try {
-            // Create branch if requested
-            if (options.branchPerTask) {
-                const branchName = `harness/${slugify(task.title)}`;
-                await execa('git', ['checkout', '-b', branchName], { cwd });
-            }
+    const runner: TaskRunner = options.parallel
+        ? (task) => runParallelTask(task, cwd, verifier, isolate ? integration : null)
+        : (task) => runSequentialTask(task, `[${++started}/${pending.length}]`, options, cwd, verifier, integration);
 
-            // Run the task
-            const prompt = `Complete this task: ${task.title}`;
-            await execa('opencode', ['run', prompt], {
-                cwd,
-                timeout: 300000,
-            });
+    if (options.parallel) {
+        const where = isolate ? `, each in its own git worktree merged into ${integration.baseBranch}` : '';
+        console.log(chalk.gray(`Running up to ${maxParallel} tasks at a time as their dependencies finish${where}...`));
+    }
 
-            spinner.succeed(`[${i + 1}/${tasks.length}] ${task.title}`);
+    // Record each transition in the ledger and each outcome in the PRD file as it happens
+    const warned = new Set<string>();
+    const warnOnce = (what: string) => (error: Error) => {
+        if (warned.has(what)) return;
+        warned.add(what);
+        console.log(chalk.yellow(`⚠️  Could not update the ${what}: ${error.message}`));
+    };
+    const recordTransition = (task: Task) => {
+        ledger.record(task).catch(warnOnce('run ledger'));
+    };
+    const saveProgress = (task: Task) => {
+        recordTransition(task);
+        progress?.save().catch(warnOnce('PRD file'));
+    };
+
+    await runTaskGraph(graph, runner, {
+        maxParallel,
+        onStart: (task) => {
+            recordTransition(task);
+            if (options.parallel) console.log(chalk.gray(`  ▶ ${task.title}`));
+        },
+        onFinish: saveProgress,
+        onSkip: (task, blockedBy) => {
+            recordTransition(task);
+            console.log(chalk.yellow(`  ⊘ ${task.title} (skipped: "${blockedBy.title}" ${blockedBy.status})`));
+        },
+    });
+
+    await progress?.save().catch(() => false);
 
-            // Merge back if using branch workflow
-            if (options.branchPerTask) {
-                const baseBranch = options.baseBranch || 'main';
-                await execa('git', ['checkout', baseBranch], { cwd });
-                await execa('git', ['merge', '--no-ff', `harness/${slugify(task.title)}`], { cwd });
-            }
+    // Summary
+    const succeeded = pending.filter((task) => task.status === 'completed').length;
+    const failed = pending.filter((task) => task.status === 'failed').length;
+    const skipped = pending.filter((task) => task.status === 'skipped').length;
 
-        } catch (error) {
-            spinner.fail(`[${i + 1}/${tasks.length}] ${task.title} - Failed`);
-            if (options.verbose) {
-                console.error(error);
+    console.log('');
+    console.log(chalk.gray('Summary:'));
+    console.log(chalk.green(`  ✓ ${succeeded} succeeded`));
+    if (failed > 0) {
+        console.log(chalk.red(`  ✗ ${failed} failed`));
+    }
+    if (skipped > 0) {
+        console.log(chalk.yellow(`  ⊘ ${skipped} skipped`));
+    }
+}
+
+async function runSequentialTask(
+    task: Task,
+    label: string,
+    options: PrdOptions,
+    cwd: string,
+    verifier: TaskVerifier,
+    integration: TaskIntegration
+): Promise<boolean> {
+    const spinner = ora(`${label} ${task.title}`).start();
+    let branch: string | null = null;
+
+    try {
+        // Create branch if requested
+        if (options.branchPerTask) {
+            branch = await createTaskBranch(cwd, slugify(task.title), verifier.config, integration.baseBranch);
+            integration.current = branch;
+        }
+
+        // Run the task, retrying with the failed checks until they pass
+        const { success, report } = await runTaskVerified(task, cwd, verifier, (text) => {
+            spinner.text = `${label} ${task.title} - ${text}`;
+        });
+
+        if (!success) {
+            if (report && !report.passed) {
+                spinner.fail(`${label} ${task.title} - Verification failed`);
+                printVerificationReport(report);
+            } else {
+                spinner.fail(`${label} ${task.title} - ${task.error}`);
             }
+            // Leave the unverified work on its branch, unmerged
+            if (branch) await leaveTaskBranch(cwd, task, branch, integration.baseBranch);
+            return false;
+        }
+
+        if (!branch) {
+            spinner.succeed(`${label} ${task.title}`);
+            return true;
+        }
+
+        // Commit on the branch and bring it into the base branch
+        spinner.text = `${label} ${task.title} - merging into ${integration.baseBranch}`;
+        const result = await integrateTask(cwd, task, { branch, workdir: cwd }, buildIntegrationOptions(task, cwd, integration, verifier));
+        const outcome = describeIntegration(result, integration.baseBranch);
+
+        if (!isIntegrated(result)) {
+            task.error = result.error;
+            spinner.fail(`${label} ${task.title} - ${outcome}`);
+            return false;
         }
+
+        spinner.succeed(`${label} ${task.title}` + chalk.gray(` (${outcome})`));
+        return true;
+    } catch (error) {
+        spinner.fail(`${label} ${task.title} - Failed`);
+        task.error = (error as Error).message;
+        if (options.verbose) {
+            console.error(error);
+        }
+        if (branch) await leaveTaskBranch(cwd, task, branch, integration.baseBranch);
+        return false;
+    } finally {
+        integration.current = null;
     }
 }
 
-async function executeParallel(
-    tasks: Task[],
-    options: PrdOptions,
-    cwd: string
-): Promise<void> {
-    const maxParallel = parseInt(options.maxParallel || '3', 10);
-    const results: Array<{ task: Task; success: boolean }> = [];
+/**
+ * Keep a failed task's work on its branch and check the base branch out again
+ */
+async function leaveTaskBranch(cwd: string, task: Task, branch: string, baseBranch: string): Promise<void> {
+    try {
+        await commitTaskChanges(cwd, task);
+    } catch {
+        // Don't carry the changes over to the base branch either way
+        const stash = await execa('git', ['stash', 'push', '--include-untracked', '-m', stashMessage(branch)], { cwd, reject: false });
+        if (isStashed(stash)) printStashed(branch);
+    }
+    await execa('git', ['checkout', baseBranch], { cwd, reject: false });
+}
 
-    // Group tasks by parallel_group or run all at once
-    const chunks: Task[][] = [];
-    for (let i = 0; i < tasks.length; i += maxParallel) {
-        chunks.push(tasks.slice(i, i + maxParallel));
+/**
+ * On Ctrl+C, get the main checkout off the task branch it is on (stashing the
+ * agent's work) or out of a half-done merge, and back onto the base branch.
+ * Synchronous, so no other task starts in between.
+ */
+function restoreBaseBranch(cwd: string, integration: TaskIntegration): void {
+    const branch = integration.current;
+    if (!branch) return;
+
+    const git = (args: string[]) => execaSync('git', args, { cwd, reject: false });
+    git(['merge', '--abort']);
+    git(['rebase', '--abort']);
+    if (isStashed(git(['stash', 'push', '--include-untracked', '-m', stashMessage(branch)]))) {
+        printStashed(branch);
     }
+    git(['checkout', integration.baseBranch]);
+    console.log(chalk.gray(`Checked out ${integration.baseBranch} again`));
+}
+
+function stashMessage(branch: string): string {
+    return `harness: ${branch}`;
+}
+
+/**
+ * Whether `git stash push` saved anything (it succeeds with nothing to save too)
+ */
+function isStashed(result: { exitCode?: number; stdout: string }): boolean {
+    return result.exitCode === 0 && result.stdout.trim() !== '' && !result.stdout.includes('No local changes');
+}
+
+function printStashed(branch: string): void {
+    console.log(chalk.yellow(`⚠️  Uncommitted changes from ${branch} stashed as stash@{0} ("${stashMessage(branch)}")`));
+}
 
-    for (const chunk of chunks) {
-        console.log(chalk.gray(`\nRunning ${chunk.length} tasks in parallel...`));
+/**
+ * Run a task in its own worktree when `integration` is given (and merge it
+ * back afterwards), otherwise in the shared working directory
+ */
+async function runParallelTask(
+    task: Task,
+    cwd: string,
+    verifier: TaskVerifier,
+    integration: TaskIntegration | null
+): Promise<boolean> {
+    let worktree: TaskWorktree | null = null;
+
+    try {
+        if (integration) {
+            worktree = await createTaskWorktree(cwd, task, slugify(task.title), verifier.config, integration.baseBranch);
+        }
+
+        let { success } = await runTaskVerified(task, worktree?.path ?? cwd, verifier);
+        let note = '';
 
-        const promises = chunk.map(async (task, index) => {
+        if (worktree && integration) {
+            ({ success, note } = await releaseWorktree(cwd, task, worktree, success, integration, verifier));
+        }
+
+        if (success) {
+            console.log(chalk.green(`  ✓ ${task.title}`));
+        } else {
+            console.log(chalk.red(`  ✗ ${task.title}${task.error ? ` (${task.error})` : ''}`));
+        }
+        if (note) console.log(chalk.gray(`    ${note}`));
+        return success;
+    } catch (error) {
+        task.error = (error as Error).message;
+        console.log(chalk.red(`  ✗ ${task.title}`));
+        if (worktree) await finishWorktree(cwd, worktree, 'failed', task.error).catch(() => undefined);
+        return false;
+    }
+}
+
+/**
+ * Merge a finished task's branch into the base branch and remove its worktree
+ * (the branch stays); keep failed or conflicting ones for `oc-harness worktrees list`
+ */
+async function releaseWorktree(
+    cwd: string,
+    task: Task,
+    worktree: TaskWorktree,
+    success: boolean,
+    integration: TaskIntegration,
+    verifier: TaskVerifier
+): Promise<{ success: boolean; note: string }> {
+    const kept = `worktree kept at ${relative(cwd, worktree.path)}`;
+
+    try {
+        if (!success) {
+            await finishWorktree(cwd, worktree, 'failed', task.error);
+            return { success, note: kept };
+        }
+
+        const options = buildIntegrationOptions(task, worktree.path, integration, verifier);
+        const merge = integration.queue.then(async () => {
+            integration.current = worktree.branch;
             try {
-                const prompt = `Complete this task: ${task.title}`;
-                await execa('opencode', ['run', prompt], {
-                    cwd,
-                    timeout: 300000,
-                });
-                console.log(chalk.green(`  ✓ ${task.title}`));
-                return { task, success: true };
-            } catch {
-                console.log(chalk.red(`  ✗ ${task.title}`));
-                return { task, success: false };
+                return await integrateTask(cwd, task, { branch: worktree.branch, workdir: worktree.path }, options);
+            } finally {
+                integration.current = null;
             }
         });
+        integration.queue = merge.catch(() => undefined);
+        const result: IntegrationResult = await merge;
+        const outcome = describeIntegration(result, integration.baseBranch);
+
+        if (!isIntegrated(result)) {
+            task.error = result.error;
+            await finishWorktree(cwd, worktree, 'failed', result.error);
+            return { success: false, note: `${kept}, branch ${worktree.branch} not merged` };
+        }
 
-        const chunkResults = await Promise.all(promises);
-        results.push(...chunkResults);
+        await removeTaskWorktree(cwd, worktree);
+        return { success: true, note: outcome };
+    } catch (error) {
+        // Keep it (and whatever the agent left in it) for `oc-harness worktrees list`
+        const message = (error as Error).message;
+        await finishWorktree(cwd, worktree, success ? 'completed' : 'failed', message).catch(() => undefined);
+        return { success, note: chalk.yellow(`⚠️  Could not clean up worktree ${worktree.path}: ${message.split('\n')[0]}`) };
     }
+}
 
-    // Summary
-    const succeeded = results.filter((r) => r.success).length;
-    const failed = results.filter((r) => !r.success).length;
+/**
+ * Integration settings for one task, with the agent and checks run in `workdir`
+ */
+function buildIntegrationOptions(
+    task: Task,
+    workdir: string,
+    integration: TaskIntegration,
+    verifier: TaskVerifier
+): IntegrationOptions {
+    return {
+        baseBranch: integration.baseBranch,
+        strategy: integration.strategy,
+        onConflict: integration.onConflict,
+        runAgent: async (prompt) => {
+            await execa('opencode', ['run', prompt], {
+                cwd: workdir,
+                timeout: 300000,
+                env: { [TASK_ID_ENV]: task.id },
+            });
+        },
+        verify: verifier.checks.length > 0
+            ? async () => (await runChecks(workdir, verifier)).passed
+            : undefined,
+    };
+}
 
-    console.log('');
-    console.log(chalk.gray('Summary:'));
-    console.log(chalk.green(`  ✓ ${succeeded} succeeded`));
-    if (failed > 0) {
-        console.log(chalk.red(`  ✗ ${failed} failed`));
+/**
+ * What running a task (with its retries) came to
+ */
+interface TaskAttempt {
+    /** The agent didn't report failure and the checks passed */
+    success: boolean;
+    /** The last verification report, or null when no checks ran */
+    report: VerificationReport | null;
+}
+
+/**
+ * Run a task, then the verification checks; on failure, run it again with the
+ * check output (or the agent's own failure summary) in the prompt, up to
+ * `task.maxRetries` times. The agent's `harness-complete` result is
+ * authoritative: `blocked` stops at once, `failed` is retried; without one
+ * the checks alone decide.
+ */
+async function runTaskVerified(
+    task: Task,
+    cwd: string,
+    verifier: TaskVerifier,
+    onProgress: (text: string) => void = () => {}
+): Promise<TaskAttempt> {
+    let report: VerificationReport | null = null;
+    let outcome: TaskResult | null = null;
+    let runError: string | null = null;
+
+    for (let attempt = 0; attempt <= task.maxRetries; attempt++) {
+        task.retries = attempt;
+        if (attempt > 0) onProgress(`retry ${attempt}/${task.maxRetries}`);
+
+        const prompt = buildTaskPrompt(task, report, outcome, runError);
+        await clearTaskResult(cwd, task.id);
+        runError = null;
+        try {
+            await execa('opencode', ['run', prompt], {
+                cwd,
+                timeout: 300000,
+                env: { [TASK_ID_ENV]: task.id },
+            });
+        } catch (error) {
+            // A crash or timeout costs this attempt, not the task
+            runError = describeRunError(error);
+        }
+
+        // The agent may have reported before OpenCode went down
+        outcome = await readTaskResult(cwd, task.id);
+        if (outcome?.status === 'blocked') {
+            task.error = `Blocked: ${describeOutcome(outcome)}`;
+            return { success: false, report: null };
+        }
+        if (outcome?.status === 'failed' || (runError && !outcome)) {
+            report = null;
+            continue;
+        }
+
+        if (verifier.checks.length === 0) return { success: true, report: null };
+
+        onProgress('verifying');
+        report = await runChecks(cwd, verifier);
+
+        if (report.passed) return { success: true, report };
     }
+
+    task.error = outcome?.status === 'failed'
+        ? `Agent reported failure: ${describeOutcome(outcome)}`
+        : runError && !outcome
+            ? runError
+            : report?.results
+                .filter((r) => !r.passed && !r.optional)
+                .map((r) => `${r.name}: ${describeFailure(r)}`)
+                .join(', ');
+    return { success: false, report };
+}
+
+/**
+ * Run the checks, taking turns with other tasks when they share a working tree
+ */
+async function runChecks(cwd: string, verifier: TaskVerifier): Promise<VerificationReport> {
+    if (!verifier.serialize) return runVerification(cwd, verifier.checks, verifier.config);
+
+    const run = verifier.queue.then(() => runVerification(cwd, verifier.checks, verifier.config));
+    verifier.queue = run.catch(() => undefined);
+    return run;
+}
+
+/**
+ * Integration settings from the command line, falling back to config;
+ * the base branch defaults to the one currently checked out
+ */
+async function resolveIntegration(cwd: string, config: HarnessConfig, options: PrdOptions): Promise<TaskIntegration> {
+    const strategy = options.mergeStrategy ?? config.parallel.mergeStrategy;
+    if (strategy !== 'merge' && strategy !== 'rebase') {
+        throw new Error(`Unknown merge strategy "${strategy}" (expected merge or rebase)`);
+    }
+
+    const onConflict = options.onConflict ?? config.parallel.onConflict;
+    if (onConflict !== 'abort' && onConflict !== 'agent') {
+        throw new Error(`Unknown conflict handling "${onConflict}" (expected abort or agent)`);
+    }
+
+    let baseBranch = options.baseBranch;
+    if (!baseBranch) {
+        const head = await execa('git', ['rev-parse', '--abbrev-ref', 'HEAD'], { cwd, reject: false });
+        const current = head.exitCode === 0 ? head.stdout.trim() : '';
+        baseBranch = current && current !== 'HEAD' ? current : 'main';
+    }
+
+    return { baseBranch, strategy, onConflict, queue: Promise.resolve(), current: null };
+}
+
+function buildTaskPrompt(
+    task: Task,
+    report: VerificationReport | null,
+    outcome: TaskResult | null,
+    runError: string | null
+): string {
+    const failures = outcome?.status === 'failed'
+        ? `Your last attempt reported failure: ${describeOutcome(outcome)}`
+        : runError && !outcome
+            ? `Your last attempt did not finish: ${runError}`
+            : report ? formatVerificationForPrompt(report) : '';
+    return failures
+        ? `Complete this task: ${task.title}\n\n${failures}`
+        : `Complete this task: ${task.title}`;
+}
+
+function describeOutcome(outcome: TaskResult): string {
+    return outcome.summary.trim().split('\n')[0] || 'no reason given';
 }
 
 function slugify(text: string): string {
@@ -8,6 +8,36 @@ import chalk from 'chalk';
 import ora from 'ora';
 import { existsSync } from 'fs';
 import { join } from 'path';
+import {
+    IPC_PATH_ENV,
+    TASK_ID_ENV,
+    clearTaskResult,
+    createIPCServer,
+    createTokenizer,
+    getIPCPath,
+    loadConfig,
+    readTaskResult,
+    type ContextState,
+    type IPCServer,
+    type IPCServerOptions,
+    type Task,
+    type TaskResult,
+    type VerificationCommand,
+    type VerificationReport,
+} from '@opencode-harness/shared';
+import {
+    formatVerificationForPrompt,
+    printVerificationReport,
+    resolveVerificationCommands,
+    runVerification,
+} from '../verification.js';
+import {
+    createAttemptLog,
+    describeRunError,
+    readDiffStat,
+    recordRunOutcome,
+    summarizeFailedChecks,
+} from '../attempts.js';
 
 interface RunOptions {
     maxIterations?: string;
@@ -38,6 +68,10 @@ export async function runCommand(
     const runLint = options.lint !== false;
     const verbose = options.verbose || false;
 
+    const config = await loadConfig(cwd);
+    const checks = await resolveVerificationCommands(cwd, config, { tests: runTests, lint: runLint });
+    const attempts = createAttemptLog(await createTokenizer(config.context.tokenizer), config.tasks.attemptHistoryTokens);
+
     console.log('');
     console.log(chalk.cyan('╔═══════════════════════════════════════════╗'));
     console.log(chalk.cyan('║') + chalk.bold.white('  OpenCode Harness - Task Runner           ') + chalk.cyan('║'));
@@ -47,20 +81,91 @@ export async function runCommand(
     console.log(chalk.gray('Max Iterations: ') + chalk.white(maxIterations));
     console.log(chalk.gray('Run Tests: ') + chalk.white(runTests ? 'Yes' : 'No'));
     console.log(chalk.gray('Run Lint: ') + chalk.white(runLint ? 'Yes' : 'No'));
+    console.log(chalk.gray('Verification: ') + chalk.white(checks.length > 0 ? checks.map((c) => c.command).join(', ') : 'None'));
     console.log('');
 
     const spinner = ora('Starting OpenCode session...').start();
 
+    const runTask: Task = {
+        id: `run-${Date.now()}`,
+        title: task,
+        status: 'running',
+        retries: 0,
+        maxRetries: maxIterations,
+        createdAt: Date.now(),
+    };
+
     let iteration = 0;
     let success = false;
+    let reported: TaskResult | null = null;
+    let blocked = false;
+    let verification: VerificationReport | null = null;
+    let context: ContextState | null = null;
+    let memoriesSaved = 0;
+
+    const progress = () => {
+        const usage = context ? ` · ${context.totalTokensEstimate.toLocaleString()} tokens in context` : '';
+        return `Iteration ${iteration}/${maxIterations}...${usage}`;
+    };
+
+    // The plugin reports over this socket; stdout is only a fallback
+    const ipc: IPCServer | null = await startIPC(cwd, {
+        onConnect: (peer) => {
+            if (verbose) console.log(chalk.gray(`\n[IPC] Plugin connected (pid ${peer.pid})`));
+            peer.send({ type: 'task.start', payload: runTask });
+        },
+        onMessage: (message) => {
+            switch (message.type) {
+                case 'task.complete':
+                    if (message.payload.taskId === runTask.id) {
+                        reported = message.payload.result ?? {
+                            taskId: runTask.id,
+                            status: message.payload.success ? 'completed' : 'failed',
+                            summary: '',
+                            filesChanged: [],
+                            followUps: [],
+                            at: Date.now(),
+                        };
+                    }
+                    break;
+                case 'context.update':
+                    context = message.payload;
+                    spinner.text = progress();
+                    break;
+                case 'context.compact':
+                    if (verbose) console.log(chalk.gray(`\n[IPC] Context compacted (${message.payload.reason})`));
+                    break;
+                case 'memory.save':
+                    memoriesSaved++;
+                    if (verbose) console.log(chalk.gray(`\n[IPC] Memory saved: [${message.payload.type}] ${message.payload.content.substring(0, 80)}`));
+                    break;
+            }
+        },
+    }, verbose);
 
-    while (iteration < maxIterations && !success) {
+    while (iteration < maxIterations && !success && !blocked) {
         iteration++;
-        spinner.text = `Iteration ${iteration}/${maxIterations}...`;
+        reported = null;
+        spinner.text = progress();
+        await clearTaskResult(cwd, runTask.id);
+
+        const startedAt = Date.now();
+        let outcome: TaskResult | null = null;
+        let claimed = false;
+        let runError: string | undefined;
+        let stdout: string | undefined;
 
         try {
             // Build the prompt with harness context
-            const prompt = buildPrompt(task, iteration, runTests, runLint);
+            const prompt = buildPrompt(
+                task,
+                iteration,
+                runTests,
+                runLint,
+                checks,
+                verification,
+                attempts.formatForPrompt({ latestChecksShown: verification !== null && !verification.passed })
+            );
 
             // Run OpenCode
             if (verbose) {
@@ -70,44 +175,90 @@ export async function runCommand(
 
             const result = await execa('opencode', ['run', prompt], {
                 cwd,
-                env: { ...process.env, FORCE_COLOR: '1' },
+                env: {
+                    ...process.env,
+                    FORCE_COLOR: '1',
+                    [TASK_ID_ENV]: runTask.id,
+                    ...(ipc ? { [IPC_PATH_ENV]: ipc.path } : {}),
+                },
                 timeout: 300000, // 5 minute timeout per iteration
             });
+            stdout = result.stdout;
 
             if (verbose) {
                 console.log(chalk.gray(result.stdout));
             }
-
-            // Check for success indicators
-            if (result.stdout.includes('Task completed successfully') ||
-                result.stdout.includes('All tests passed') ||
-                result.stdout.includes('✓') && !result.stdout.includes('Error')) {
-                success = true;
-                spinner.succeed(chalk.green(`Task completed in ${iteration} iteration(s)!`));
-            } else if (result.stdout.includes('Error') || result.stdout.includes('Failed')) {
-                if (verbose) {
-                    console.log(chalk.yellow(`[Iteration ${iteration}] Errors detected, retrying...`));
-                }
-            } else {
-                // Assume success if no obvious errors
-                success = true;
-                spinner.succeed(chalk.green(`Task completed in ${iteration} iteration(s)!`));
-            }
-
         } catch (error) {
             const err = error as Error & { stderr?: string };
+            runError = describeRunError(error);
             if (verbose) {
                 console.log(chalk.red(`[Iteration ${iteration}] Error: ${err.message}`));
                 if (err.stderr) {
                     console.log(chalk.gray(err.stderr));
                 }
             }
+        }
+
+        // The agent's harness-complete call is authoritative, even if OpenCode
+        // went down after it; stdout is only a fallback
+        outcome = await collectResult(cwd, runTask.id, ipc, () => reported);
+        if (outcome?.status === 'blocked') {
+            blocked = true;
+            spinner.fail(chalk.red('Task is blocked and needs attention'));
+            printResult(outcome);
+        }
+
+        claimed = outcome ? outcome.status === 'completed' : stdout !== undefined && looksSuccessful(stdout);
+        if (!claimed && verbose) {
+            console.log(chalk.yellow(`[Iteration ${iteration}] ${outcome ? 'Task reported failure' : 'Errors detected'}, retrying...`));
+            if (outcome) printResult(outcome);
+        }
 
-            if (iteration >= maxIterations) {
-                spinner.fail(chalk.red(`Task failed after ${maxIterations} iterations`));
-                process.exit(1);
+        // Checks run after every iteration; failures go into the next prompt
+        if (checks.length > 0 && !blocked) {
+            spinner.text = `Iteration ${iteration}/${maxIterations}: running ${checks.map((c) => c.name).join(', ')}...`;
+            verification = await runVerification(cwd, checks, config);
+
+            if (verbose || (claimed && !verification.passed)) {
+                spinner.stop();
+                console.log(chalk.gray(`[Iteration ${iteration}] Verification:`));
+                printVerificationReport(verification);
+                spinner.start(progress());
             }
         }
+
+        if (claimed && (verification?.passed ?? true)) {
+            success = true;
+            spinner.succeed(chalk.green(`Task completed in ${iteration} iteration(s)!`));
+            if (outcome) printResult(outcome);
+        } else if (claimed) {
+            spinner.text = `Checks failed after iteration ${iteration}, retrying...`;
+        }
+
+        attempts.record({
+            iteration,
+            outcome: outcome?.status ?? (runError ? 'error' : 'unreported'),
+            summary: outcome?.summary || undefined,
+            error: runError,
+            failedChecks: checks.length > 0 && !blocked ? summarizeFailedChecks(verification) : [],
+            diff: await readDiffStat(cwd),
+            durationMs: Date.now() - startedAt,
+        });
+    }
+
+    try {
+        const memory = await recordRunOutcome(cwd, config, task, attempts.getAttempts(), success);
+        if (memory && verbose) {
+            console.log(chalk.gray(`Recorded the outcome as a ${memory.type} memory (${memory.id.substring(0, 8)})`));
+        }
+    } catch (error) {
+        console.log(chalk.yellow(`⚠️  Could not record the outcome in memory: ${(error as Error).message}`));
+    }
+
+    await ipc?.close();
+
+    if (blocked) {
+        process.exit(1);
     }
 
     if (!success) {
@@ -116,14 +267,91 @@ export async function runCommand(
     }
 
     console.log('');
-    console.log(chalk.gray('Memory has been saved for future sessions.'));
+    if (memoriesSaved > 0) {
+        console.log(chalk.gray(`${memoriesSaved} memories saved for future sessions.`));
+    } else {
+        console.log(chalk.gray('Memory has been saved for future sessions.'));
+    }
+}
+
+/**
+ * Guess the outcome from stdout when the agent never called harness-complete
+ */
+function looksSuccessful(stdout: string): boolean {
+    if (stdout.includes('Task completed successfully') ||
+        stdout.includes('All tests passed') ||
+        stdout.includes('✓') && !stdout.includes('Error')) {
+        return true;
+    }
+
+    // Assume success if no obvious errors
+    return !(stdout.includes('Error') || stdout.includes('Failed'));
+}
+
+/**
+ * The result reported for this iteration: over IPC, else from the result file
+ */
+async function collectResult(
+    cwd: string,
+    taskId: string,
+    ipc: IPCServer | null,
+    getReported: () => TaskResult | null
+): Promise<TaskResult | null> {
+    // Reports sent just before the process exited may still be in flight
+    if (ipc && !getReported()) {
+        await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+    return getReported() ?? await readTaskResult(cwd, taskId);
+}
+
+function printResult(result: TaskResult): void {
+    if (result.summary) {
+        console.log(chalk.gray('  Summary: ') + chalk.white(result.summary));
+    }
+    if (result.filesChanged.length > 0) {
+        console.log(chalk.gray('  Files changed:'));
+        for (const file of result.filesChanged) console.log(chalk.gray(`    - ${file}`));
+    }
+    if (result.followUps.length > 0) {
+        console.log(chalk.gray('  Follow-ups:'));
+        for (const item of result.followUps) console.log(chalk.yellow(`    - ${item}`));
+    }
+}
+
+/**
+ * Listen for plugin reports; null (stdout-only mode) if the socket can't be opened
+ */
+async function startIPC(
+    cwd: string,
+    handlers: Omit<IPCServerOptions, 'onError'>,
+    verbose: boolean
+): Promise<IPCServer | null> {
+    const server = createIPCServer(getIPCPath(cwd, `run-${process.pid}`), {
+        ...handlers,
+        onError: (error) => {
+            if (verbose) console.log(chalk.yellow(`\n[IPC] ${error.message}`));
+        },
+    });
+
+    try {
+        await server.listen();
+        return server;
+    } catch (error) {
+        if (verbose) {
+            console.log(chalk.yellow(`[IPC] Could not listen at ${server.path}: ${(error as Error).message}`));
+        }
+        return null;
+    }
 }
 
 function buildPrompt(
     task: string,
     iteration: number,
     runTests: boolean,
-    runLint: boolean
+    runLint: boolean,
+    checks: VerificationCommand[],
+    verification: VerificationReport | null,
+    history: string
 ): string {
     const parts = [
         '# Harness Task',
@@ -146,12 +374,31 @@ function buildPrompt(
         parts.push(`${runTests ? '5' : '4'}. Run lint to check for issues`);
     }
 
+    if (checks.length > 0) {
+        parts.push(
+            '',
+            `The harness runs these checks after you finish; the task only counts as done when they pass: ${checks.map((c) => `\`${c.command}\``).join(', ')}`,
+        );
+    }
+
+    if (history) {
+        parts.push('', history);
+    }
+
+    const failures = verification ? formatVerificationForPrompt(verification) : '';
+    if (failures) {
+        parts.push('', failures);
+    }
+
     parts.push(
         '',
         '## Completion',
         '',
-        'When the task is complete, output: "Task completed successfully"',
-        'If you encounter an unrecoverable error, output: "Task failed: <reason>"',
+        'When you are done, call the `harness-complete` tool exactly once with:',
+        '- `status`: "completed", "failed" (could not do it) or "blocked" (needs a human)',
+        '- `summary`: what was done, or why not',
+        '- `filesChanged`: the paths you changed',
+        '- `followUps`: anything left to do or check',
     );
 
     return parts.join('\n');
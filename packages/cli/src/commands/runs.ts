@@ -0,0 +1,158 @@
+/**
+ * CLI Command: runs
+ * Inspect the ledger of past `prd` runs
+ */
+
+import { existsSync } from 'fs';
+import chalk from 'chalk';
+import { getConfigPath, type Task, type TaskStatus } from '@opencode-harness/shared';
+import { findRun, getRunStatus, listRuns, type RunRecord } from '../run-ledger.js';
+
+interface RunsListOptions {
+    limit?: string;
+    json?: boolean;
+}
+
+interface RunsShowOptions {
+    json?: boolean;
+}
+
+export async function runsListCommand(options: RunsListOptions): Promise<void> {
+    await run(async (cwd) => {
+        const limit = parseInt(options.limit || '20', 10);
+        const runs = (await listRuns(cwd)).slice(0, Number.isNaN(limit) ? 20 : limit);
+
+        if (options.json) {
+            console.log(JSON.stringify(runs.map((r) => ({ ...r, status: getRunStatus(r) })), null, 2));
+            return;
+        }
+
+        if (runs.length === 0) {
+            console.log(chalk.gray('No runs recorded yet.'));
+            return;
+        }
+
+        for (const record of runs) {
+            const counts = countTasks(record.tasks);
+            const summary = [
+                chalk.green(`${counts.completed} done`),
+                counts.failed > 0 ? chalk.red(`${counts.failed} failed`) : '',
+                counts.skipped > 0 ? chalk.yellow(`${counts.skipped} skipped`) : '',
+                counts.pending + counts.running > 0 ? chalk.gray(`${counts.pending + counts.running} left`) : '',
+            ].filter(Boolean).join(', ');
+
+            console.log(`${formatStatus(getRunStatus(record))} ${chalk.white(record.id)} ${chalk.gray(record.source)}`);
+            console.log(chalk.gray(`  ${new Date(record.startedAt).toLocaleString()} · ${formatDuration(record)} · `) + summary);
+        }
+    });
+}
+
+export async function runsShowCommand(id: string, options: RunsShowOptions): Promise<void> {
+    await run(async (cwd) => {
+        const record = await findRun(cwd, id);
+        if (!record) {
+            throw new Error(`Run not found: ${id}`);
+        }
+
+        if (options.json) {
+            console.log(JSON.stringify({ ...record, status: getRunStatus(record) }, null, 2));
+            return;
+        }
+
+        const status = getRunStatus(record);
+        console.log(chalk.bold(`Run ${record.id}`) + ' ' + formatStatus(status));
+        console.log(chalk.gray(`  PRD:      ${record.source} (${record.format})`));
+        console.log(chalk.gray(`  Mode:     ${record.parallel ? 'parallel' : 'sequential'}`));
+        console.log(chalk.gray(`  Started:  ${new Date(record.startedAt).toLocaleString()}`));
+        for (const at of record.resumedAt) {
+            console.log(chalk.gray(`  Resumed:  ${new Date(at).toLocaleString()}`));
+        }
+        if (record.finishedAt) {
+            console.log(chalk.gray(`  Finished: ${new Date(record.finishedAt).toLocaleString()} (${formatDuration(record)})`));
+        }
+
+        console.log('');
+        console.log(chalk.bold('Tasks:'));
+        for (const task of record.tasks) {
+            const retries = task.retries > 0 ? chalk.gray(` (retries: ${task.retries}/${task.maxRetries})`) : '';
+            console.log(`  ${formatTaskStatus(task.status)} ${task.title} ${chalk.gray(`[${task.id}]`)}${retries}`);
+            if (task.error) {
+                console.log(chalk.red(`      ${task.error}`));
+            }
+        }
+
+        if (record.transitions.length > 0) {
+            const titles = new Map(record.tasks.map((task) => [task.id, task.title]));
+            console.log('');
+            console.log(chalk.bold('History:'));
+            for (const transition of record.transitions) {
+                const time = new Date(transition.at).toLocaleTimeString();
+                const title = titles.get(transition.taskId) ?? transition.taskId;
+                console.log(chalk.gray(`  ${time} `) + `${title}: ${transition.from} → ${formatTaskStatus(transition.to)} ${transition.to}`);
+            }
+        }
+
+        if (status === 'failed' || status === 'interrupted') {
+            console.log('');
+            console.log(chalk.gray('Resume with ') + chalk.cyan(`oc-harness prd --resume ${record.id}`));
+        }
+    });
+}
+
+// Helpers
+
+function countTasks(tasks: Task[]): Record<TaskStatus, number> {
+    const counts: Record<TaskStatus, number> = { pending: 0, running: 0, completed: 0, failed: 0, skipped: 0 };
+    for (const task of tasks) counts[task.status]++;
+    return counts;
+}
+
+function formatStatus(status: RunRecord['status']): string {
+    switch (status) {
+        case 'completed':
+            return chalk.green(status);
+        case 'failed':
+            return chalk.red(status);
+        case 'interrupted':
+            return chalk.yellow(status);
+        default:
+            return chalk.cyan(status);
+    }
+}
+
+function formatTaskStatus(status: TaskStatus): string {
+    switch (status) {
+        case 'completed':
+            return chalk.green('✓');
+        case 'failed':
+            return chalk.red('✗');
+        case 'skipped':
+            return chalk.yellow('⊘');
+        case 'running':
+            return chalk.cyan('▶');
+        default:
+            return chalk.gray('○');
+    }
+}
+
+function formatDuration(record: RunRecord): string {
+    if (!record.finishedAt) return 'unfinished';
+    const seconds = Math.round((record.finishedAt - record.startedAt) / 1000);
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+async function run(action: (cwd: string) => Promise<void>): Promise<void> {
+    const cwd = process.cwd();
+
+    if (!existsSync(getConfigPath(cwd))) {
+        console.log(chalk.yellow('⚠️  Harness not initialized. Run ') + chalk.cyan('oc-harness init') + chalk.yellow(' first.'));
+        return;
+    }
+
+    try {
+        await action(cwd);
+    } catch (error) {
+        console.log(chalk.red(`❌ ${(error as Error).message}`));
+        process.exitCode = 1;
+    }
+}
@@ -7,7 +7,13 @@ import { readFile } from 'fs/promises';
 import { existsSync } from 'fs';
 import { join } from 'path';
 import chalk from 'chalk';
-import type { HarnessConfig, MemoryStore } from '@opencode-harness/shared';
+import {
+    createMemoryBackend,
+    listContextSnapshots,
+    loadConfig,
+    readCompactionLog,
+    type HarnessConfig,
+} from '@opencode-harness/shared';
 
 export async function statusCommand(): Promise<void> {
     const cwd = process.cwd();
@@ -21,7 +27,6 @@ export async function statusCommand(): Promise<void> {
     // Check initialization
     const harnessDir = join(cwd, '.opencode', '.harness');
     const configPath = join(harnessDir, 'config.json');
-    const memoryPath = join(harnessDir, 'memory.json');
 
     if (!existsSync(configPath)) {
         console.log(chalk.yellow('⚠️  Harness not initialized in this project'));
@@ -40,6 +45,7 @@ export async function statusCommand(): Promise<void> {
         console.log(chalk.bold('Configuration:'));
         console.log(chalk.gray('  Memory Enabled: ') + chalk.white(config.memory.enabled ? 'Yes' : 'No'));
         console.log(chalk.gray('  Memory Max Entries: ') + chalk.white(config.memory.maxEntries));
+        console.log(chalk.gray('  Memory Backend: ') + chalk.white(config.memory.backend ?? 'json'));
         console.log(chalk.gray('  Context Max Tokens: ') + chalk.white(config.context.maxTokens.toLocaleString()));
         console.log(chalk.gray('  Auto Compact: ') + chalk.white(config.context.autoCompact ? 'Yes' : 'No'));
         console.log(chalk.gray('  Max Parallel: ') + chalk.white(config.parallel.maxAgents));
@@ -49,10 +55,11 @@ export async function statusCommand(): Promise<void> {
     }
 
     // Load and display memory stats
-    if (existsSync(memoryPath)) {
-        try {
-            const memoryContent = await readFile(memoryPath, 'utf-8');
-            const memory = JSON.parse(memoryContent) as MemoryStore;
+    try {
+        const backend = createMemoryBackend(cwd, (await loadConfig(cwd)).memory.backend);
+        const result = backend.exists() ? await backend.load() : null;
+        if (result) {
+            const memory = result.store;
 
             const lastUpdated = new Date(memory.lastUpdated).toLocaleString();
             const entryCount = memory.entries.length;
@@ -67,6 +74,15 @@ export async function statusCommand(): Promise<void> {
             console.log(chalk.gray('  Total Entries: ') + chalk.white(entryCount));
             console.log(chalk.gray('  Last Updated: ') + chalk.white(lastUpdated));
 
+            if (result.readOnly) {
+                console.log(chalk.yellow(`  ⚠️  Written by a newer harness (format v${result.sourceVersion}); upgrade to modify it`));
+            } else if (result.migrated) {
+                console.log(chalk.yellow(`  ⚠️  Old format (v${result.sourceVersion}); will be migrated on next session`));
+            }
+            if (result.rejected.length > 0) {
+                console.log(chalk.yellow(`  ⚠️  ${result.rejected.length} invalid entries ignored`));
+            }
+
             if (entryCount > 0) {
                 console.log(chalk.gray('  By Type:'));
                 for (const [type, count] of Object.entries(byType)) {
@@ -85,16 +101,54 @@ export async function statusCommand(): Promise<void> {
                 for (const entry of recent) {
                     const date = new Date(entry.timestamp).toLocaleDateString();
                     const importance = `${(entry.importance * 100).toFixed(0)}%`;
-                    const preview = entry.content.substring(0, 60) + (entry.content.length > 60 ? '...' : '');
-                    console.log(chalk.gray(`  [${entry.type}] `) + chalk.white(preview));
+                    const text = entry.content.replace(/\s+/g, ' ');
+                    const preview = text.substring(0, 60) + (text.length > 60 ? '...' : '');
+                    const pin = entry.pinned ? chalk.yellow('📌 ') : '';
+                    console.log(chalk.gray(`  [${entry.type}] `) + pin + chalk.white(preview));
                 }
+                console.log(chalk.gray('  Run ') + chalk.cyan('oc-harness memory list') + chalk.gray(' to see all'));
                 console.log('');
             }
-        } catch {
-            console.log(chalk.yellow('⚠️  Could not read memory'));
+        } else {
+            console.log(chalk.gray('No memory file yet (will be created on first session)'));
+            console.log('');
+        }
+    } catch (error) {
+        console.log(chalk.yellow(`⚠️  Could not read memory: ${(error as Error).message}`));
+    }
+
+    // Show sessions whose navigation history survives a restart
+    const savedContexts = await listContextSnapshots(cwd);
+    if (savedContexts.length > 0) {
+        console.log(chalk.bold('Saved Context:'));
+        for (const saved of savedContexts.slice(0, 5)) {
+            const stale = saved.staleItems > 0 ? chalk.yellow(`, ${saved.staleItems} stale`) : '';
+            console.log(
+                chalk.gray(`  ${saved.sessionId} `) +
+                chalk.white(`${saved.items} items, ${saved.tokens.toLocaleString()} tokens`) + stale +
+                chalk.gray(` (saved ${new Date(saved.savedAt).toLocaleString()})`)
+            );
+        }
+        if (savedContexts.length > 5) {
+            console.log(chalk.gray(`  ...and ${savedContexts.length - 5} more`));
+        }
+        console.log('');
+    }
+
+    // Show recent context compactions
+    const compactions = await readCompactionLog(cwd, 3);
+    if (compactions.length > 0) {
+        console.log(chalk.bold('Recent Compactions:'));
+        for (const record of compactions) {
+            const why = record.reason === 'threshold'
+                ? `context at ${(record.usage * 100).toFixed(0)}%`
+                : 'manual';
+            console.log(
+                chalk.gray(`  ${new Date(record.at).toLocaleString()} `) +
+                chalk.white(`${record.tokensBefore.toLocaleString()} → ${record.tokensAfter.toLocaleString()} tokens`) +
+                chalk.gray(` (${why}, session ${record.sessionId.substring(0, 8)})`)
+            );
         }
-    } else {
-        console.log(chalk.gray('No memory file yet (will be created on first session)'));
         console.log('');
     }
 
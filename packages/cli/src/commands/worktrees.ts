@@ -0,0 +1,87 @@
+/**
+ * CLI Command: worktrees
+ * Inspect and clean up the git worktrees parallel PRD runs leave behind
+ */
+
+import { existsSync } from 'fs';
+import { relative } from 'path';
+import chalk from 'chalk';
+import { getConfigPath } from '@opencode-harness/shared';
+import { listTaskWorktrees, pruneTaskWorktrees, type TaskWorktree } from '../worktrees.js';
+
+interface WorktreesListOptions {
+    json?: boolean;
+}
+
+interface WorktreesPruneOptions {
+    all?: boolean;
+}
+
+export async function worktreesListCommand(options: WorktreesListOptions): Promise<void> {
+    await run(async (cwd) => {
+        const worktrees = await listTaskWorktrees(cwd);
+
+        if (options.json) {
+            console.log(JSON.stringify(worktrees, null, 2));
+            return;
+        }
+
+        if (worktrees.length === 0) {
+            console.log(chalk.gray('No harness worktrees.'));
+            return;
+        }
+
+        for (const worktree of worktrees) {
+            printWorktree(cwd, worktree);
+        }
+    });
+}
+
+export async function worktreesPruneCommand(options: WorktreesPruneOptions): Promise<void> {
+    await run(async (cwd) => {
+        // Worktrees of tasks still running belong to a live `prd` run unless --all
+        const removed = await pruneTaskWorktrees(cwd, (worktree) => options.all || worktree.status !== 'running');
+
+        if (removed.length === 0) {
+            console.log(chalk.gray('Nothing to prune.'));
+            return;
+        }
+
+        for (const worktree of removed) {
+            console.log(chalk.green('✓ Removed ') + chalk.white(relative(cwd, worktree.path)) + chalk.gray(` (branch ${worktree.branch} kept)`));
+        }
+    });
+}
+
+// Helpers
+
+function printWorktree(cwd: string, worktree: TaskWorktree): void {
+    const status = worktree.status === 'failed'
+        ? chalk.red('failed')
+        : worktree.status === 'running' ? chalk.yellow('running') : chalk.green(worktree.status);
+    const missing = existsSync(worktree.path) ? '' : chalk.red(' (directory missing)');
+
+    console.log(`${status} ${chalk.white(worktree.title)}${missing}`);
+    console.log(chalk.gray(`  Path:    ${relative(cwd, worktree.path)}`));
+    console.log(chalk.gray(`  Branch:  ${worktree.branch}`));
+    console.log(chalk.gray(`  Created: ${new Date(worktree.createdAt).toLocaleString()}`));
+    if (worktree.error) {
+        console.log(chalk.gray('  Error:   ') + chalk.red(worktree.error));
+    }
+}
+
+async function run(action: (cwd: string) => Promise<void>): Promise<void> {
+    const cwd = process.cwd();
+
+    if (!existsSync(getConfigPath(cwd))) {
+        console.log(chalk.yellow('⚠️  Harness not initialized. Run ') + chalk.cyan('oc-harness init') + chalk.yellow(' first.'));
+        return;
+    }
+
+    try {
+        await action(cwd);
+    } catch (error) {
+        console.log(chalk.red(`❌ ${(error as Error).message}`));
+        process.exitCode = 1;
+    }
+}
@@ -13,6 +13,20 @@ import { runCommand } from './commands/run.js';
 import { prdCommand } from './commands/prd.js';
 import { statusCommand } from './commands/status.js';
 import { setupCommand } from './commands/setup.js';
+import {
+    memoryListCommand,
+    memoryShowCommand,
+    memorySearchCommand,
+    memoryAddCommand,
+    memoryEditCommand,
+    memoryDeleteCommand,
+    memoryPinCommand,
+    memoryExportCommand,
+    memoryImportCommand,
+    memoryMigrateCommand,
+} from './commands/memory.js';
+import { worktreesListCommand, worktreesPruneCommand } from './commands/worktrees.js';
+import { runsListCommand, runsShowCommand } from './commands/runs.js';
 
 const program = new Command();
 
@@ -61,7 +75,12 @@ program
     .option('-p, --parallel', 'Run tasks in parallel')
     .option('--max-parallel <n>', 'Max parallel agents', '3')
     .option('--branch-per-task', 'Create branch for each task')
-    .option('--base-branch <name>', 'Base branch name', 'main')
+    .option('--base-branch <name>', 'Branch task branches are merged into (default: current branch)')
+    .option('--merge-strategy <strategy>', 'Bring task branches in with merge or rebase')
+    .option('--on-conflict <action>', 'On a merge conflict: abort, or agent to have the agent resolve it')
+    .option('--no-verify', 'Skip the verification checks after each task')
+    .option('--no-write-back', 'Don\'t tick off or annotate tasks in the PRD file')
+    .option('--resume [runId]', 'Resume a run\'s failed and unfinished tasks (default: the latest failed or interrupted run)')
     .option('-v, --verbose', 'Verbose output')
     .action(prdCommand);
 
@@ -71,6 +90,117 @@ program
     .description('Check harness status and running sessions')
     .action(statusCommand);
 
+// Inspect and curate memories
+const memory = program
+    .command('memory')
+    .description('Inspect and curate persisted memories');
+
+const withFilters = (command: Command) => command
+    .option('-t, --type <types>', 'Filter by type (comma-separated)')
+    .option('-s, --session <id>', 'Filter by session id')
+    .option('--min-importance <n>', 'Minimum importance (0-1)')
+    .option('--since <date>', 'Created on/after date (ISO or 7d, 12h, 2w)')
+    .option('--until <date>', 'Created on/before date (ISO or 7d, 12h, 2w)')
+    .option('--pinned', 'Only pinned memories')
+    .option('--no-pinned', 'Only unpinned memories');
+
+withFilters(memory.command('list'))
+    .description('List memories, newest first')
+    .option('-n, --limit <n>', 'Maximum results')
+    .option('--json', 'Output JSON')
+    .action(memoryListCommand);
+
+memory
+    .command('show <id>')
+    .description('Show a memory (id or unique prefix)')
+    .option('--json', 'Output JSON')
+    .action(memoryShowCommand);
+
+withFilters(memory.command('search <query>'))
+    .description('Search memories by relevance')
+    .option('-n, --limit <n>', 'Maximum results', '10')
+    .option('--json', 'Output JSON')
+    .action(memorySearchCommand);
+
+memory
+    .command('add <content>')
+    .description('Add a memory')
+    .option('-t, --type <type>', 'Memory type', 'context')
+    .option('-i, --importance <n>', 'Importance (0-1)', '0.7')
+    .option('--pin', 'Pin the memory')
+    .option('--json', 'Output JSON')
+    .action(memoryAddCommand);
+
+memory
+    .command('edit <id>')
+    .description('Edit a memory')
+    .option('-c, --content <text>', 'New content')
+    .option('-t, --type <type>', 'New type')
+    .option('-i, --importance <n>', 'New importance (0-1)')
+    .action(memoryEditCommand);
+
+memory
+    .command('delete <ids...>')
+    .description('Delete one or more memories')
+    .action(memoryDeleteCommand);
+
+memory
+    .command('pin <id>')
+    .description('Pin a memory so pruning, compression and eviction keep it')
+    .option('--unpin', 'Remove the pin instead')
+    .action(memoryPinCommand);
+
+withFilters(memory.command('export [file]'))
+    .description('Export memories as JSON (stdout if no file)')
+    .action(memoryExportCommand);
+
+memory
+    .command('import <file>')
+    .description('Import memories from an exported JSON file')
+    .option('--replace', 'Overwrite memories with the same id')
+    .action(memoryImportCommand);
+
+memory
+    .command('migrate')
+    .description('Move memories to another storage backend (json, jsonl, sqlite)')
+    .requiredOption('--to <backend>', 'Target backend')
+    .action(memoryMigrateCommand);
+
+// Worktrees left by parallel PRD runs
+const worktrees = program
+    .command('worktrees')
+    .description('Inspect and clean up task worktrees from parallel runs');
+
+worktrees
+    .command('list')
+    .description('List task worktrees (failed tasks keep theirs for inspection)')
+    .option('--json', 'Output JSON')
+    .action(worktreesListCommand);
+
+worktrees
+    .command('prune')
+    .description('Remove task worktrees (their branches are kept)')
+    .option('--all', 'Also remove worktrees of tasks still marked running')
+    .action(worktreesPruneCommand);
+
+// Inspect past PRD runs
+const runs = program
+    .command('runs')
+    .description('Inspect the ledger of past PRD runs');
+
+runs
+    .command('list')
+    .description('List runs, newest first')
+    .option('-n, --limit <n>', 'Maximum runs to show', '20')
+    .option('--json', 'Output JSON')
+    .action(runsListCommand);
+
+runs
+    .command('show <runId>')
+    .description('Show a run\'s tasks and every status change (id prefixes work)')
+    .option('--json', 'Output JSON')
+    .action(runsShowCommand);
+
 // Parse and run
 program.parse();
 
@@ -0,0 +1,299 @@
+/**
+ * CLI - Branch Integration
+ * Brings a finished task's branch into the base branch: commit what the agent
+ * left behind, merge or rebase, and never leave the repository mid-merge
+ */
+
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { execa } from 'execa';
+import { readTaskResult, type HarnessConfig, type Task } from '@opencode-harness/shared';
+
+/** Paths never committed on the agent's behalf */
+const EXCLUDED_PATHS = ['node_modules', '.opencode/.harness'];
+
+/** Files listed in a generated commit message */
+const MAX_LISTED_FILES = 20;
+
+/** Rebase stops the agent may resolve before giving up */
+const MAX_REBASE_STOPS = 10;
+
+/**
+ * A task branch and where it is checked out
+ */
+export interface IntegrationTarget {
+    branch: string;
+    /** A task worktree, or the main checkout itself */
+    workdir: string;
+}
+
+export interface IntegrationOptions {
+    baseBranch: string;
+    strategy: HarnessConfig['parallel']['mergeStrategy'];
+    onConflict: HarnessConfig['parallel']['onConflict'];
+    /** Run the agent in the target's workdir (needed for `onConflict: 'agent'`) */
+    runAgent?: (prompt: string) => Promise<void>;
+    /** Run the checks in the target's workdir; resolve true if they pass */
+    verify?: () => Promise<boolean>;
+}
+
+export interface IntegrationResult {
+    status: 'merged' | 'empty' | 'conflict' | 'failed';
+    /** Commit made from the agent's uncommitted changes */
+    commit?: string;
+    /** Files that conflicted (on `conflict`, the ones still unresolved) */
+    conflicts: string[];
+    /** The agent resolved a conflict on the way */
+    resolved: boolean;
+    error?: string;
+}
+
+/**
+ * Commit the agent's changes, then bring the branch into the base branch.
+ * On a conflict the merge is aborted, or handed to the agent first when
+ * `onConflict` is 'agent'. Never throws; the main checkout ends on the base branch.
+ */
+export async function integrateTask(
+    cwd: string,
+    task: Task,
+    target: IntegrationTarget,
+    options: IntegrationOptions
+): Promise<IntegrationResult> {
+    const result: IntegrationResult = { status: 'merged', conflicts: [], resolved: false };
+
+    try {
+        result.commit = (await commitTaskChanges(target.workdir, task)) ?? undefined;
+
+        if (!(await isAhead(cwd, target.branch, options.baseBranch))) {
+            result.status = 'empty';
+            return result;
+        }
+
+        let conflicts = await mergeBranch(cwd, target, options);
+
+        if (conflicts.length > 0 && options.onConflict === 'agent' && options.runAgent) {
+            result.resolved = await resolveWithAgent(task, target, options);
+            if (result.resolved) {
+                if (options.verify && !(await options.verify())) {
+                    throw new Error('Checks failed after resolving the merge conflict');
+                }
+                conflicts = await mergeBranch(cwd, target, options);
+            }
+        }
+
+        if (conflicts.length > 0) {
+            result.status = 'conflict';
+            result.conflicts = conflicts;
+            result.error = `Merge conflict with ${options.baseBranch} in ${conflicts.join(', ')}`;
+        }
+        return result;
+    } catch (error) {
+        result.status = 'failed';
+        result.error = (error as Error).message.split('\n')[0];
+        return result;
+    } finally {
+        await checkout(cwd, options.baseBranch).catch(() => undefined);
+    }
+}
+
+/**
+ * Commit everything the agent left uncommitted (except harness state and
+ * node_modules) with a generated message. Returns the commit, or null if clean.
+ */
+export async function commitTaskChanges(workdir: string, task: Task): Promise<string | null> {
+    await stageChanges(workdir);
+    const staged = await execa('git', ['diff', '--cached', '--quiet'], { cwd: workdir, reject: false });
+    if (staged.exitCode === 0) return null;
+
+    await execa('git', ['commit', '--no-verify', '-m', await buildCommitMessage(workdir, task)], { cwd: workdir });
+    return (await execa('git', ['rev-parse', 'HEAD'], { cwd: workdir })).stdout.trim();
+}
+
+/**
+ * Task title as the subject; the agent's summary (from `harness-complete`),
+ * the staged files and a `Harness-Task` trailer as the body
+ */
+export async function buildCommitMessage(workdir: string, task: Task): Promise<string> {
+    const lines = [task.title.length > 72 ? `${task.title.substring(0, 69)}...` : task.title];
+
+    const result = await readTaskResult(workdir, task.id);
+    if (result?.summary) lines.push('', result.summary.trim());
+
+    const status = await execa('git', ['diff', '--cached', '--name-status'], { cwd: workdir });
+    const files = status.stdout.split('\n').filter(Boolean).map((line) => {
+        const [code, ...paths] = line.split('\t');
+        return `  ${code[0]} ${paths.join(' -> ')}`;
+    });
+    if (files.length > 0) {
+        lines.push('', 'Files:', ...files.slice(0, MAX_LISTED_FILES));
+        if (files.length > MAX_LISTED_FILES) lines.push(`  ... ${files.length - MAX_LISTED_FILES} more`);
+    }
+
+    lines.push('', `Harness-Task: ${task.id}`);
+    return lines.join('\n');
+}
+
+/**
+ * Whether the branch ended up in the base branch (or had nothing to bring)
+ */
+export function isIntegrated(result: IntegrationResult): boolean {
+    return result.status === 'merged' || result.status === 'empty';
+}
+
+/**
+ * "merged into main", "conflict in a.ts", ...
+ */
+export function describeIntegration(result: IntegrationResult, baseBranch: string): string {
+    switch (result.status) {
+        case 'merged':
+            return `merged into ${baseBranch}${result.resolved ? ' after the agent resolved a conflict' : ''}`;
+        case 'empty':
+            return 'no changes to merge';
+        case 'conflict':
+            return `conflict with ${baseBranch} in ${result.conflicts.join(', ')}`;
+        default:
+            return `could not merge: ${result.error}`;
+    }
+}
+
+// Helpers
+
+/**
+ * Merge (or rebase and fast-forward) the branch into the base branch.
+ * Returns the conflicting files after aborting, or [] on success.
+ */
+async function mergeBranch(cwd: string, target: IntegrationTarget, options: IntegrationOptions): Promise<string[]> {
+    if (options.strategy === 'rebase') {
+        await checkout(target.workdir, target.branch);
+        const rebase = await execa('git', ['rebase', options.baseBranch], { cwd: target.workdir, reject: false });
+        if (rebase.exitCode !== 0) {
+            return abortWithConflicts(target.workdir, 'rebase', rebase.stderr);
+        }
+
+        await checkout(cwd, options.baseBranch);
+        await execa('git', ['merge', '--ff-only', target.branch], { cwd });
+        return [];
+    }
+
+    await checkout(cwd, options.baseBranch);
+    const merge = await execa('git', ['merge', '--no-ff', '--no-edit', '--no-verify', target.branch], { cwd, reject: false });
+    if (merge.exitCode !== 0) {
+        return abortWithConflicts(cwd, 'merge', merge.stderr);
+    }
+    return [];
+}
+
+/**
+ * Replay the conflict on the task branch (merging the base branch in, or
+ * rebasing onto it) and let the agent resolve it there.
+ * Returns false, with the operation aborted, if conflicts remain.
+ */
+async function resolveWithAgent(
+    task: Task,
+    target: IntegrationTarget,
+    options: IntegrationOptions
+): Promise<boolean> {
+    const workdir = target.workdir;
+    const operation = options.strategy;
+    await checkout(workdir, target.branch);
+
+    const args = operation === 'rebase'
+        ? ['rebase', options.baseBranch]
+        : ['merge', '--no-edit', '--no-verify', options.baseBranch];
+    let step = await execa('git', args, { cwd: workdir, reject: false });
+
+    for (let stop = 0; step.exitCode !== 0; stop++) {
+        const files = await listConflicts(workdir);
+        if (files.length === 0 || stop >= MAX_REBASE_STOPS) {
+            await execa('git', [operation, '--abort'], { cwd: workdir, reject: false });
+            if (files.length === 0) throw new Error(step.stderr || `git ${operation} failed`);
+            return false;
+        }
+
+        await options.runAgent?.(buildConflictPrompt(task, target, options.baseBranch, operation, files));
+
+        if ((await listConflicts(workdir)).length > 0 || (await hasConflictMarkers(workdir, files))) {
+            await execa('git', [operation, '--abort'], { cwd: workdir, reject: false });
+            return false;
+        }
+
+        await stageChanges(workdir);
+        if (operation === 'merge') {
+            // The agent may have concluded the merge already
+            const merging = await execa('git', ['rev-parse', '--verify', '--quiet', 'MERGE_HEAD'], { cwd: workdir, reject: false });
+            if (merging.exitCode !== 0) return true;
+            step = await execa('git', ['commit', '--no-edit', '--no-verify'], { cwd: workdir, reject: false });
+        } else {
+            step = await execa('git', ['rebase', '--continue'], {
+                cwd: workdir,
+                reject: false,
+                env: { GIT_EDITOR: 'true' },
+            });
+        }
+    }
+
+    return true;
+}
+
+function buildConflictPrompt(
+    task: Task,
+    target: IntegrationTarget,
+    baseBranch: string,
+    operation: IntegrationOptions['strategy'],
+    files: string[]
+): string {
+    const inProgress = operation === 'rebase'
+        ? `A rebase of \`${target.branch}\` onto \`${baseBranch}\` is in progress`
+        : `A merge of \`${baseBranch}\` into \`${target.branch}\` is in progress`;
+
+    return [
+        `Resolve a merge conflict for the task: ${task.title}`,
+        '',
+        `The changes on \`${target.branch}\` conflict with \`${baseBranch}\`. ${inProgress} in this working tree.`,
+        'These files have conflicts:',
+        ...files.map((file) => `- ${file}`),
+        '',
+        'Edit each file so it keeps the intent of both sides, remove every conflict marker,',
+        `and stage the files with \`git add\`. Do not abort the ${operation} and do not start a new one.`,
+    ].join('\n');
+}
+
+async function abortWithConflicts(dir: string, operation: 'merge' | 'rebase', stderr: string): Promise<string[]> {
+    const conflicts = await listConflicts(dir);
+    await execa('git', [operation, '--abort'], { cwd: dir, reject: false });
+    if (conflicts.length === 0) throw new Error(stderr || `git ${operation} failed`);
+    return conflicts;
+}
+
+async function listConflicts(dir: string): Promise<string[]> {
+    const result = await execa('git', ['diff', '--name-only', '--diff-filter=U'], { cwd: dir, reject: false });
+    return result.stdout.split('\n').map((line) => line.trim()).filter(Boolean);
+}
+
+async function hasConflictMarkers(dir: string, files: string[]): Promise<boolean> {
+    for (const file of files) {
+        const path = join(dir, file);
+        if (!existsSync(path)) continue;
+        if (/^(<{7}|>{7})( |$)/m.test(await readFile(path, 'utf-8'))) return true;
+    }
+    return false;
+}
+
+async function stageChanges(dir: string): Promise<void> {
+    // Unstage afterwards: naming ignored paths in an exclude pathspec makes `git add` fail
+    await execa('git', ['add', '-A'], { cwd: dir });
+    await execa('git', ['reset', '-q', '--', ...EXCLUDED_PATHS], { cwd: dir });
+}
+
+async function isAhead(cwd: string, branch: string, baseBranch: string): Promise<boolean> {
+    const count = await execa('git', ['rev-list', '--count', `${baseBranch}..${branch}`], { cwd });
+    return parseInt(count.stdout.trim(), 10) > 0;
+}
+
+async function checkout(dir: string, branch: string): Promise<void> {
+    const current = await execa('git', ['rev-parse', '--abbrev-ref', 'HEAD'], { cwd: dir });
+    if (current.stdout.trim() !== branch) {
+        await execa('git', ['checkout', branch], { cwd: dir });
+    }
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { parse as parseYaml } from 'yaml';
+import type { Task, TaskStatus } from '@opencode-harness/shared';
+import { updateMarkdownProgress, updateYamlProgress } from './prd-progress.js';
+
+function task(id: string, status: TaskStatus, extra: Partial<Task> = {}): Task {
+    return { id, title: id, status, retries: 0, maxRetries: 3, createdAt: 0, ...extra };
+}
+
+describe('updateYamlProgress', () => {
+    it('adds completed after a block list without touching the next task', () => {
+        const content = [
+            'tasks:',
+            '  - id: b',
+            '    title: B',
+            '    depends_on:',
+            '      - a',
+            '  - id: c',
+            '    title: C',
+            '',
+        ].join('\n');
+
+        const updated = updateYamlProgress(content, [task('b', 'completed'), task('c', 'pending')]);
+
+        expect(updated).toBe([
+            'tasks:',
+            '  - id: b',
+            '    title: B',
+            '    depends_on:',
+            '      - a',
+            '    completed: true',
+            '  - id: c',
+            '    title: C',
+            '',
+        ].join('\n'));
+        const parsed = parseYaml(updated) as { tasks: Array<{ completed?: boolean }> };
+        expect(parsed.tasks[1].completed).toBeUndefined();
+    });
+
+    it('replaces an existing value and keeps comments', () => {
+        const content = '# plan\ntasks:\n  - title: A   # first\n    completed: false # not yet\n  # between\n  - title: B\n';
+
+        const updated = updateYamlProgress(content, [task('a', 'completed'), task('b', 'pending')]);
+
+        expect(updated).toBe('# plan\ntasks:\n  - title: A   # first\n    completed: true # not yet\n  # between\n  - title: B\n');
+    });
+
+    it('inserts after a trailing comment on the last line of the map', () => {
+        const content = 'tasks:\n  - title: A # note\n  - title: B\n';
+
+        const updated = updateYamlProgress(content, [task('a', 'completed'), task('b', 'pending')]);
+
+        expect(updated).toBe('tasks:\n  - title: A # note\n    completed: true\n  - title: B\n');
+    });
+
+    it('edits flow maps in place', () => {
+        const content = 'tasks:\n  - {title: A, id: a}\n  - {title: B, error: "old", retries: 1}\n';
+
+        const updated = updateYamlProgress(content, [
+            task('a', 'failed', { error: 'tests: exit 1', retries: 2 }),
+            task('b', 'completed'),
+        ]);
+
+        expect(updated).toBe('tasks:\n  - {title: A, id: a, error: "tests: exit 1", retries: 2}\n  - {title: B, completed: true}\n');
+    });
+
+    it('removes failure keys once the task completes', () => {
+        const content = 'tasks:\n  - title: A\n    error: "boom"\n    retries: 3\n  - title: B\n';
+
+        const updated = updateYamlProgress(content, [task('a', 'completed'), task('b', 'pending')]);
+
+        expect(updated).toBe('tasks:\n  - title: A\n    completed: true\n  - title: B\n');
+    });
+
+    it('keeps CRLF line endings', () => {
+        const content = 'tasks:\r\n  - title: A\r\n    depends_on:\r\n      - x\r\n  - title: B\r\n';
+
+        const updated = updateYamlProgress(content, [task('a', 'completed'), task('b', 'failed', { error: 'boom', retries: 1 })]);
+
+        expect(updated).toBe(
+            'tasks:\r\n  - title: A\r\n    depends_on:\r\n      - x\r\n    completed: true\r\n' +
+            '  - title: B\r\n    error: "boom"\r\n    retries: 1\r\n'
+        );
+    });
+
+    it('leaves the content untouched when nothing finished', () => {
+        const content = 'tasks:\n  - title: A\n    depends_on: [x]\n';
+        expect(updateYamlProgress(content, [task('a', 'pending')])).toBe(content);
+    });
+});
+
+describe('updateMarkdownProgress', () => {
+    it('ticks completed tasks and annotates failed ones', () => {
+        const content = '# Plan\r\n\r\n- [ ] Alpha (id: a)\r\n* [ ] Beta\r\nText\r\n';
+
+        const updated = updateMarkdownProgress(content, [
+            task('a', 'completed'),
+            task('b', 'failed', { error: 'check (lint) failed', retries: 2 }),
+        ]);
+
+        expect(updated).toBe('# Plan\r\n\r\n- [x] Alpha (id: a)\r\n* [ ] Beta (failed: check [lint] failed) (retries: 2)\r\nText\r\n');
+    });
+
+    it('drops the failure annotation when a retried task completes', () => {
+        const content = '- [ ] Beta (failed: boom) (retries: 1)\n';
+        expect(updateMarkdownProgress(content, [task('b', 'completed')])).toBe('- [x] Beta\n');
+    });
+});
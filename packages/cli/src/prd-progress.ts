@@ -0,0 +1,217 @@
+/**
+ * CLI - PRD Progress
+ * Writes task outcomes back into the PRD file, so a re-run picks up where the
+ * last one stopped. Only the task lines change; everything else is kept as is.
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import { isMap, isScalar, isSeq, parseDocument, type Pair, type YAMLMap } from 'yaml';
+import type { Task, TaskList } from '@opencode-harness/shared';
+
+/** Longest error kept in a failure annotation */
+const MAX_ERROR_CHARS = 120;
+
+/** `(failed: …)` and `(retries: …)` annotations written for failed tasks */
+const FAILURE_ANNOTATIONS = /\s*\((failed|retries):\s*[^)]*\)/gi;
+
+const CHECKBOX = /^(\s*[-*]\s*\[)([ xX])(\])/;
+
+/**
+ * Progress Writer
+ *
+ * Rewrites the task list's source file after each finished task;
+ * writes are queued so parallel tasks don't overwrite each other.
+ */
+export function createProgressWriter(taskList: TaskList) {
+    let queue: Promise<unknown> = Promise.resolve();
+
+    /**
+     * Write the current task statuses; resolves false if nothing changed
+     */
+    function save(): Promise<boolean> {
+        const write = queue.then(() => writeTaskProgress(taskList));
+        queue = write.catch(() => undefined);
+        return write;
+    }
+
+    return {
+        save,
+    };
+}
+
+export type ProgressWriter = ReturnType<typeof createProgressWriter>;
+
+/**
+ * Apply the task statuses to the source file; false if it was already up to date
+ */
+export async function writeTaskProgress(taskList: TaskList): Promise<boolean> {
+    const content = await readFile(taskList.source, 'utf-8');
+    const updated = applyTaskProgress(content, taskList);
+    if (updated === content) return false;
+
+    await writeFile(taskList.source, updated);
+    return true;
+}
+
+/**
+ * The PRD content with completed tasks ticked and failed ones annotated
+ */
+export function applyTaskProgress(content: string, taskList: TaskList): string {
+    return taskList.format === 'yaml'
+        ? updateYamlProgress(content, taskList.tasks)
+        : updateMarkdownProgress(content, taskList.tasks);
+}
+
+/**
+ * Tick `- [ ]` boxes of completed tasks and annotate failed ones with
+ * `(failed: error) (retries: n)`; tasks match checkboxes by position
+ */
+export function updateMarkdownProgress(content: string, tasks: Task[]): string {
+    const lines = content.split('\n');
+    let index = 0;
+
+    for (let i = 0; i < lines.length; i++) {
+        const eol = lines[i].endsWith('\r') ? '\r' : '';
+        let line = eol ? lines[i].slice(0, -1) : lines[i];
+        if (!/^[\s]*[-*]\s*\[([ xX])\]\s*(.+)$/.test(line)) continue;
+
+        const task = tasks[index++];
+        if (!task || (task.status !== 'completed' && task.status !== 'failed')) continue;
+
+        line = line.replace(FAILURE_ANNOTATIONS, '');
+
+        if (task.status === 'completed') {
+            line = line.replace(CHECKBOX, (match, open: string, mark: string, close: string) =>
+                mark === ' ' ? `${open}x${close}` : match
+            );
+        } else {
+            line += ` (failed: ${describeError(task)}) (retries: ${task.retries})`;
+        }
+
+        lines[i] = line + eol;
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Set `completed: true` on completed tasks and `error`/`retries` on failed
+ * ones, editing the source text in place so comments and layout survive
+ */
+export function updateYamlProgress(content: string, tasks: Task[]): string {
+    const doc = parseDocument(content);
+    const items = doc.get('tasks', true);
+    if (!isSeq(items)) return content;
+
+    const edits: TextEdit[] = [];
+
+    items.items.forEach((item, index) => {
+        const task = tasks[index];
+        if (!isMap(item) || !task) return;
+
+        if (task.status === 'completed') {
+            edits.push(...setPair(content, item, 'completed', 'true'));
+            edits.push(...removePair(content, item, 'error'), ...removePair(content, item, 'retries'));
+        } else if (task.status === 'failed') {
+            edits.push(...setPair(content, item, 'error', JSON.stringify(describeError(task))));
+            edits.push(...setPair(content, item, 'retries', String(task.retries)));
+        }
+    });
+
+    // Apply back to front so earlier offsets stay valid (and inserts at one offset keep their order)
+    return edits
+        .map((edit, order) => ({ ...edit, order }))
+        .sort((a, b) => b.start - a.start || b.order - a.order)
+        .reduce((text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end), content);
+}
+
+// Helpers
+
+interface TextEdit {
+    start: number;
+    end: number;
+    text: string;
+}
+
+function describeError(task: Task): string {
+    const flat = (task.error || 'unknown error').split('\n')[0].replace(/\(/g, '[').replace(/\)/g, ']').replace(/\s+/g, ' ').trim();
+    return flat.length > MAX_ERROR_CHARS ? `${flat.substring(0, MAX_ERROR_CHARS - 3)}...` : flat;
+}
+
+function findPair(map: YAMLMap, key: string): Pair | undefined {
+    return map.items.find((pair) => isScalar(pair.key) && pair.key.value === key) as Pair | undefined;
+}
+
+/**
+ * Replace a key's value, or add the key after the map's last entry
+ */
+function setPair(content: string, map: YAMLMap, key: string, value: string): TextEdit[] {
+    const pair = findPair(map, key);
+
+    if (pair) {
+        const node = pair.value as { range?: [number, number, number] } | null;
+        if (node?.range) {
+            const [start, end] = node.range;
+            return content.slice(start, end) === value ? [] : [{ start, end, text: value }];
+        }
+        // `key:` with no value
+        const keyEnd = (pair.key as { range: [number, number, number] }).range[1];
+        const colon = content.indexOf(':', keyEnd) + 1;
+        return [{ start: colon, end: colon, text: ` ${value}` }];
+    }
+
+    if (map.flow) {
+        const close = (map.range as [number, number, number])[1] - 1;
+        const separator = map.items.length > 0 ? ', ' : '';
+        return [{ start: close, end: close, text: `${separator}${key}: ${value}` }];
+    }
+
+    const first = map.items[0]?.key as { range: [number, number, number] } | undefined;
+    if (!first || !map.range) return [];
+
+    // After the map's last line: its range can run on to the start of the next item
+    const indent = ' '.repeat(first.range[0] - content.lastIndexOf('\n', first.range[0] - 1) - 1);
+    const at = endOfLastLine(content, map.range[0], map.range[1]);
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+
+    return at === content.length
+        ? [{ start: at, end: at, text: `${eol}${indent}${key}: ${value}` }]
+        : [{ start: at + 1, end: at + 1, text: `${indent}${key}: ${value}${eol}` }];
+}
+
+/**
+ * Remove a key written by `setPair` (block maps: its whole line)
+ */
+function removePair(content: string, map: YAMLMap, key: string): TextEdit[] {
+    const pair = findPair(map, key);
+    if (!pair) return [];
+
+    const keyStart = (pair.key as { range: [number, number, number] }).range[0];
+    const end = ((pair.value ?? pair.key) as { range: [number, number, number] }).range[1];
+
+    if (map.flow) {
+        const comma = content.lastIndexOf(',', keyStart);
+        const start = comma > (map.range as [number, number, number])[0] ? comma : keyStart;
+        return [{ start, end, text: '' }];
+    }
+
+    const lineStart = content.lastIndexOf('\n', keyStart - 1) + 1;
+    // A key sharing its line with `- ` starts the item; leave it alone
+    if (content.slice(lineStart, keyStart).trim() !== '') return [];
+
+    const lineEnd = endOfLastLine(content, keyStart, end);
+    return [{ start: lineStart, end: Math.min(lineEnd + 1, content.length), text: '' }];
+}
+
+/**
+ * Offset of the newline ending the last non-blank line in `start..end`
+ * (node ranges of block collections include the following line break),
+ * or the content length when that line is the last one
+ */
+function endOfLastLine(content: string, start: number, end: number): number {
+    let last = end;
+    while (last > start && /\s/.test(content[last - 1])) last--;
+
+    const newline = content.indexOf('\n', last);
+    return newline === -1 ? content.length : newline;
+}
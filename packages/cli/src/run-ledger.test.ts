@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { Task, TaskStatus } from '@opencode-harness/shared';
+import {
+    createRunLedger,
+    createRunRecord,
+    findResumableRun,
+    findRun,
+    findRunToResume,
+    getRunStatus,
+    getRunsDir,
+    listRuns,
+    reopenRun,
+    type RunRecord,
+} from './run-ledger.js';
+
+/** A pid no process has, so a `running` record with it was killed */
+const DEAD_PID = 99_999_999;
+
+let projectPath: string;
+
+beforeEach(async () => {
+    projectPath = await mkdtemp(join(tmpdir(), 'harness-runs-'));
+    await writeFile(join(projectPath, 'PRD.md'), '- [ ] a\n- [ ] b\n- [ ] c\n');
+});
+
+afterEach(async () => {
+    await rm(projectPath, { recursive: true, force: true });
+});
+
+function task(id: string, status: TaskStatus = 'pending', extra: Partial<Task> = {}): Task {
+    return { id, title: id, status, retries: 0, maxRetries: 3, createdAt: 0, ...extra };
+}
+
+function newRun(tasks: Task[] = [task('a'), task('b'), task('c')]): RunRecord {
+    return createRunRecord(projectPath, { source: join(projectPath, 'PRD.md'), format: 'markdown', tasks }, false);
+}
+
+/** Save a run as it would be left on disk */
+async function saveRun(id: string, status: RunRecord['status'], startedAt: number, extra: Partial<RunRecord> = {}): Promise<RunRecord> {
+    const run = { ...newRun(), id, status, startedAt, ...extra };
+    await createRunLedger(projectPath, run).save();
+    return run;
+}
+
+describe('createRunLedger', () => {
+    it('records each status change once and saves the run', async () => {
+        const ledger = createRunLedger(projectPath, newRun());
+        const [a, b] = ledger.run.tasks;
+
+        a.status = 'running';
+        await ledger.record(a);
+        await ledger.record(a);
+        a.status = 'completed';
+        b.status = 'failed';
+        b.error = 'tests failed';
+        b.retries = 3;
+        await Promise.all([ledger.record(a), ledger.record(b)]);
+        await ledger.finish();
+
+        const saved = JSON.parse(await readFile(join(getRunsDir(projectPath), `${ledger.run.id}.json`), 'utf-8')) as RunRecord;
+        expect(saved.source).toBe('PRD.md');
+        expect(saved.status).toBe('failed');
+        expect(saved.finishedAt).toBeDefined();
+        expect(saved.transitions.map((t) => [t.taskId, t.from, t.to])).toEqual([
+            ['a', 'pending', 'running'],
+            ['a', 'running', 'completed'],
+            ['b', 'pending', 'failed'],
+        ]);
+        expect(saved.transitions[2]).toMatchObject({ retries: 3, error: 'tests failed' });
+    });
+
+    it('marks the run interrupted synchronously', async () => {
+        const ledger = createRunLedger(projectPath, newRun());
+
+        ledger.interrupt();
+
+        expect((await findRun(projectPath, ledger.run.id))?.status).toBe('interrupted');
+    });
+});
+
+describe('listRuns and findRun', () => {
+    it('lists runs newest first and finds one by a unique prefix', async () => {
+        await saveRun('20260101-100000-aaaa', 'completed', 1);
+        await saveRun('20260102-100000-bbbb', 'failed', 2);
+        await writeFile(join(getRunsDir(projectPath), 'notes.json'), 'not json');
+
+        expect((await listRuns(projectPath)).map((run) => run.id)).toEqual(['20260102-100000-bbbb', '20260101-100000-aaaa']);
+        expect((await findRun(projectPath, '20260101'))?.id).toBe('20260101-100000-aaaa');
+        expect(await findRun(projectPath, '2027')).toBeNull();
+        await expect(findRun(projectPath, '2026')).rejects.toThrow('ambiguous');
+    });
+});
+
+describe('getRunStatus', () => {
+    it('treats a running record whose process is gone as interrupted', () => {
+        expect(getRunStatus({ ...newRun(), pid: process.pid })).toBe('running');
+        expect(getRunStatus({ ...newRun(), pid: DEAD_PID })).toBe('interrupted');
+    });
+});
+
+describe('resuming', () => {
+    it('picks the newest failed or interrupted run when no id is given', async () => {
+        await saveRun('failed-old', 'failed', 1);
+        await saveRun('killed', 'running', 2, { pid: DEAD_PID });
+        await saveRun('done', 'completed', 3);
+        await saveRun('live', 'running', 4, { pid: process.pid });
+
+        expect((await findResumableRun(projectPath))?.id).toBe('killed');
+        expect((await findRunToResume(projectPath, true)).id).toBe('killed');
+    });
+
+    it('refuses runs that are missing, still running or whose PRD is gone', async () => {
+        await expect(findRunToResume(projectPath, true)).rejects.toThrow('No failed or interrupted run to resume');
+        await expect(findRunToResume(projectPath, 'nope')).rejects.toThrow('Run not found: nope');
+
+        await saveRun('live', 'running', 1, { pid: process.pid });
+        await expect(findRunToResume(projectPath, 'live')).rejects.toThrow('is still running');
+
+        await saveRun('moved', 'failed', 2, { source: 'OLD.md' });
+        await expect(findRunToResume(projectPath, 'moved')).rejects.toThrow("The run's PRD file is gone: OLD.md");
+    });
+
+    it('keeps completed tasks and sends failed, skipped and unfinished ones back to pending', () => {
+        const run = newRun([
+            task('done', 'completed'),
+            task('broken', 'failed', { retries: 3, error: 'tests failed' }),
+            task('blocked', 'skipped'),
+            task('cut-off', 'running', { retries: 1 }),
+            task('untouched'),
+        ]);
+        run.status = 'interrupted';
+
+        const reopened = reopenRun(run, true);
+
+        expect(reopened.tasks.map((t) => [t.id, t.status, t.retries, t.error])).toEqual([
+            ['done', 'completed', 0, undefined],
+            ['broken', 'pending', 0, undefined],
+            ['blocked', 'pending', 0, undefined],
+            ['cut-off', 'pending', 0, undefined],
+            ['untouched', 'pending', 0, undefined],
+        ]);
+        expect(reopened.transitions.map((t) => [t.taskId, t.from])).toEqual([
+            ['broken', 'failed'],
+            ['blocked', 'skipped'],
+            ['cut-off', 'running'],
+        ]);
+        expect(reopened).toMatchObject({ status: 'running', pid: process.pid, parallel: true, finishedAt: undefined });
+        expect(reopened.resumedAt).toHaveLength(1);
+    });
+});
@@ -0,0 +1,261 @@
+/**
+ * CLI - Run Ledger
+ * One JSON file per `prd` run recording every task transition, so an
+ * interrupted run can be inspected and resumed
+ */
+
+import { readFile, writeFile, readdir, mkdir, rename, rm } from 'fs/promises';
+import { existsSync, mkdirSync, renameSync, writeFileSync } from 'fs';
+import { join, relative, resolve } from 'path';
+import { randomUUID } from 'crypto';
+import { getHarnessDir, type Task, type TaskList, type TaskStatus } from '@opencode-harness/shared';
+
+/**
+ * A task changing status during a run
+ */
+export interface RunTransition {
+    taskId: string;
+    from: TaskStatus;
+    to: TaskStatus;
+    at: number;
+    retries: number;
+    error?: string;
+}
+
+/**
+ * A `prd` run (saved as `<id>.json` in `getRunsDir`)
+ */
+export interface RunRecord {
+    id: string;
+    /** PRD file, relative to the project */
+    source: string;
+    format: TaskList['format'];
+    status: 'running' | 'completed' | 'failed' | 'interrupted';
+    /** Process running it, to tell a live run from one that was killed */
+    pid: number;
+    parallel: boolean;
+    startedAt: number;
+    /** Each time `--resume` picked the run up again */
+    resumedAt: number[];
+    finishedAt?: number;
+    /** Latest state of every task, in PRD order */
+    tasks: Task[];
+    transitions: RunTransition[];
+}
+
+/**
+ * Get the directory holding run records for a project
+ */
+export function getRunsDir(projectPath: string): string {
+    return join(getHarnessDir(projectPath), 'runs');
+}
+
+/**
+ * Run Ledger
+ *
+ * Keeps a run's record in step with its tasks: call `record` whenever a
+ * task changes status. Writes are queued and atomic.
+ */
+export function createRunLedger(projectPath: string, run: RunRecord) {
+    const path = join(getRunsDir(projectPath), `${run.id}.json`);
+    const lastStatus = new Map(run.tasks.map((task) => [task.id, task.status]));
+    let queue: Promise<unknown> = Promise.resolve();
+
+    function save(): Promise<void> {
+        const snapshot = JSON.stringify(run, null, 2);
+        const write = queue.then(async () => {
+            await mkdir(getRunsDir(projectPath), { recursive: true });
+            const tempPath = `${path}.${process.pid}.${randomUUID()}.tmp`;
+            try {
+                await writeFile(tempPath, snapshot);
+                await rename(tempPath, path);
+            } catch (error) {
+                await rm(tempPath, { force: true });
+                throw error;
+            }
+        });
+        queue = write.catch(() => undefined);
+        return write;
+    }
+
+    /**
+     * Note a task's new status (no-op if it hasn't changed)
+     */
+    function record(task: Task): Promise<void> {
+        const from = lastStatus.get(task.id) ?? 'pending';
+        if (from === task.status) return Promise.resolve();
+
+        lastStatus.set(task.id, task.status);
+        run.transitions.push({
+            taskId: task.id,
+            from,
+            to: task.status,
+            at: Date.now(),
+            retries: task.retries,
+            error: task.error,
+        });
+        return save();
+    }
+
+    /**
+     * Mark the run finished: failed if any task failed or was skipped
+     */
+    function finish(): Promise<void> {
+        const failed = run.tasks.some((task) => task.status === 'failed' || task.status === 'skipped');
+        run.status = failed ? 'failed' : 'completed';
+        run.finishedAt = Date.now();
+        return save();
+    }
+
+    /**
+     * Mark the run interrupted; synchronous, for signal handlers
+     */
+    function interrupt(): void {
+        run.status = 'interrupted';
+        run.finishedAt = Date.now();
+        const tempPath = `${path}.${process.pid}.interrupt.tmp`;
+        mkdirSync(getRunsDir(projectPath), { recursive: true });
+        writeFileSync(tempPath, JSON.stringify(run, null, 2));
+        renameSync(tempPath, path);
+    }
+
+    return {
+        run,
+        save,
+        record,
+        finish,
+        interrupt,
+    };
+}
+
+export type RunLedger = ReturnType<typeof createRunLedger>;
+
+/**
+ * A new run record for a parsed task list
+ */
+export function createRunRecord(projectPath: string, taskList: TaskList, parallel: boolean): RunRecord {
+    const now = new Date();
+    const stamp = now.toISOString().replace(/[-:]/g, '').replace('T', '-').substring(0, 15);
+
+    return {
+        id: `${stamp}-${randomUUID().substring(0, 4)}`,
+        source: relative(projectPath, resolve(projectPath, taskList.source)).split('\\').join('/'),
+        format: taskList.format,
+        status: 'running',
+        pid: process.pid,
+        parallel,
+        startedAt: now.getTime(),
+        resumedAt: [],
+        tasks: taskList.tasks,
+        transitions: [],
+    };
+}
+
+/**
+ * Reopen a run: tasks that failed, were skipped or never finished go back to
+ * pending (recorded as transitions); completed ones stay done
+ */
+export function reopenRun(run: RunRecord, parallel: boolean): RunRecord {
+    const now = Date.now();
+
+    for (const task of run.tasks) {
+        if (task.status === 'completed' || task.status === 'pending') continue;
+
+        run.transitions.push({ taskId: task.id, from: task.status, to: 'pending', at: now, retries: task.retries, error: task.error });
+        task.status = 'pending';
+        task.error = undefined;
+        task.retries = 0;
+    }
+
+    run.status = 'running';
+    run.pid = process.pid;
+    run.parallel = parallel;
+    run.resumedAt.push(now);
+    run.finishedAt = undefined;
+    return run;
+}
+
+/**
+ * The task list a run was started from, pointing at its PRD file
+ */
+export function getRunTaskList(projectPath: string, run: RunRecord): TaskList {
+    return { source: join(projectPath, run.source), format: run.format, tasks: run.tasks };
+}
+
+/**
+ * All runs, newest first
+ */
+export async function listRuns(projectPath: string): Promise<RunRecord[]> {
+    const dir = getRunsDir(projectPath);
+    if (!existsSync(dir)) return [];
+
+    const runs: RunRecord[] = [];
+    for (const file of await readdir(dir)) {
+        if (!file.endsWith('.json')) continue;
+        try {
+            runs.push(JSON.parse(await readFile(join(dir, file), 'utf-8')) as RunRecord);
+        } catch {
+            // Skip files that are not run records
+        }
+    }
+
+    return runs.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/**
+ * Find a run by id or unique id prefix. Throws if the prefix is ambiguous.
+ */
+export async function findRun(projectPath: string, id: string): Promise<RunRecord | null> {
+    const runs = await listRuns(projectPath);
+    const exact = runs.find((run) => run.id === id);
+    if (exact) return exact;
+
+    const matches = runs.filter((run) => run.id.startsWith(id));
+    if (matches.length > 1) {
+        throw new Error(`Run id "${id}" is ambiguous (${matches.map((run) => run.id).join(', ')})`);
+    }
+    return matches[0] ?? null;
+}
+
+/**
+ * The newest run that did not complete and is not still going
+ */
+export async function findResumableRun(projectPath: string): Promise<RunRecord | null> {
+    const runs = await listRuns(projectPath);
+    return runs.find((run) => {
+        const status = getRunStatus(run);
+        return status === 'failed' || status === 'interrupted';
+    }) ?? null;
+}
+
+/**
+ * The run named by `--resume <id>`, or the newest one that failed or was interrupted
+ */
+export async function findRunToResume(projectPath: string, resume: boolean | string): Promise<RunRecord> {
+    const run = typeof resume === 'string' ? await findRun(projectPath, resume) : await findResumableRun(projectPath);
+    if (!run) {
+        throw new Error(typeof resume === 'string' ? `Run not found: ${resume}` : 'No failed or interrupted run to resume');
+    }
+    if (getRunStatus(run) === 'running') {
+        throw new Error(`Run ${run.id} is still running (pid ${run.pid})`);
+    }
+    if (!existsSync(join(projectPath, run.source))) {
+        throw new Error(`The run's PRD file is gone: ${run.source}`);
+    }
+    return run;
+}
+
+/**
+ * A run's status, treating a `running` run whose process is gone as interrupted
+ */
+export function getRunStatus(run: RunRecord): RunRecord['status'] {
+    if (run.status !== 'running') return run.status;
+
+    try {
+        process.kill(run.pid, 0);
+        return 'running';
+    } catch (error) {
+        // EPERM: the process exists but belongs to someone else
+        return (error as NodeJS.ErrnoException).code === 'EPERM' ? 'running' : 'interrupted';
+    }
+}
@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import type { Task } from '@opencode-harness/shared';
+import { buildTaskGraph, runTaskGraph, TaskCycleError, type TaskRunner } from './scheduler.js';
+
+function task(id: string, extra: Partial<Task> = {}): Task {
+    return { id, title: id, status: 'pending', retries: 0, maxRetries: 3, createdAt: 0, ...extra };
+}
+
+/**
+ * A runner whose tasks finish when the test says so, recording start order
+ */
+function createControlledRunner() {
+    const started: string[] = [];
+    const pending = new Map<string, (success: boolean) => void>();
+    let active = 0;
+    let peak = 0;
+
+    const runner: TaskRunner = (t) => {
+        started.push(t.id);
+        active++;
+        peak = Math.max(peak, active);
+        return new Promise<boolean>((resolve) => {
+            pending.set(t.id, (success) => {
+                active--;
+                resolve(success);
+            });
+        });
+    };
+
+    /** Finish a running task, then let the scheduler react */
+    async function finish(id: string, success = true): Promise<void> {
+        const resolve = pending.get(id);
+        if (!resolve) throw new Error(`${id} is not running`);
+        pending.delete(id);
+        resolve(success);
+        await new Promise((r) => setTimeout(r, 0));
+    }
+
+    return { runner, finish, started, running: () => [...pending.keys()], peak: () => peak };
+}
+
+describe('buildTaskGraph', () => {
+    it('rejects dependencies on unknown tasks', () => {
+        expect(() => buildTaskGraph([task('a', { dependencies: ['missing'] })])).toThrow(
+            'Task "a" depends on unknown task "missing"'
+        );
+    });
+
+    it('reports the tasks forming a cycle', () => {
+        const tasks = [
+            task('a', { dependencies: ['c'] }),
+            task('b', { dependencies: ['a'] }),
+            task('c', { dependencies: ['b'] }),
+        ];
+
+        let error: unknown;
+        try {
+            buildTaskGraph(tasks);
+        } catch (e) {
+            error = e;
+        }
+
+        expect(error).toBeInstanceOf(TaskCycleError);
+        const cycle = (error as TaskCycleError).cycle;
+        expect(cycle[0]).toBe(cycle[cycle.length - 1]);
+        expect(new Set(cycle)).toEqual(new Set(['a', 'b', 'c']));
+    });
+
+    it('treats a self-dependency as a cycle', () => {
+        expect(() => buildTaskGraph([task('a', { dependencies: ['a'] })])).toThrow(TaskCycleError);
+    });
+
+    it('makes each parallel group wait for all lower groups', () => {
+        const graph = buildTaskGraph([
+            task('a1', { parallelGroup: 1 }),
+            task('a2', { parallelGroup: 1 }),
+            task('b', { parallelGroup: 2 }),
+            task('c', { parallelGroup: 3 }),
+            task('free'),
+        ]);
+
+        expect(graph.prerequisites.get('a1')).toEqual(new Set());
+        expect(graph.prerequisites.get('b')).toEqual(new Set(['a1', 'a2']));
+        expect(graph.prerequisites.get('c')).toEqual(new Set(['a1', 'a2', 'b']));
+        expect(graph.prerequisites.get('free')).toEqual(new Set());
+    });
+});
+
+describe('runTaskGraph', () => {
+    it('runs parallel groups in order', async () => {
+        const graph = buildTaskGraph([
+            task('b', { parallelGroup: 2 }),
+            task('a1', { parallelGroup: 1 }),
+            task('a2', { parallelGroup: 1 }),
+        ]);
+        const control = createControlledRunner();
+
+        const done = runTaskGraph(graph, control.runner, { maxParallel: 3 });
+        await new Promise((r) => setTimeout(r, 0));
+        expect(control.running()).toEqual(['a1', 'a2']);
+
+        await control.finish('a1');
+        expect(control.running()).toEqual(['a2']);
+        await control.finish('a2');
+        expect(control.running()).toEqual(['b']);
+        await control.finish('b');
+
+        await done;
+        expect(control.started).toEqual(['a1', 'a2', 'b']);
+        expect(graph.tasks.every((t) => t.status === 'completed')).toBe(true);
+    });
+
+    it('never runs more than maxParallel tasks at once', async () => {
+        const graph = buildTaskGraph(['a', 'b', 'c', 'd', 'e'].map((id) => task(id)));
+        const control = createControlledRunner();
+
+        const done = runTaskGraph(graph, control.runner, { maxParallel: 2 });
+        for (const id of ['a', 'b', 'c', 'd', 'e']) {
+            await new Promise((r) => setTimeout(r, 0));
+            expect(control.running().length).toBeLessThanOrEqual(2);
+            await control.finish(id);
+        }
+
+        await done;
+        expect(control.peak()).toBe(2);
+        expect(control.started).toEqual(['a', 'b', 'c', 'd', 'e']);
+    });
+
+    it('skips everything down the chain after a failure', async () => {
+        const graph = buildTaskGraph([
+            task('a'),
+            task('b', { dependencies: ['a'] }),
+            task('c', { dependencies: ['b'] }),
+            task('other'),
+        ]);
+        const skipped: Array<[string, string]> = [];
+
+        await runTaskGraph(graph, async (t) => t.id !== 'a', {
+            maxParallel: 2,
+            onSkip: (t, blockedBy) => skipped.push([t.id, blockedBy.id]),
+        });
+
+        expect(graph.tasks.map((t) => t.status)).toEqual(['failed', 'skipped', 'skipped', 'completed']);
+        expect(skipped).toEqual([['b', 'a'], ['c', 'b']]);
+        expect(graph.tasks[1].error).toBe('Prerequisite "a" failed');
+        expect(graph.tasks[2].error).toBe('Prerequisite "b" was skipped');
+    });
+
+    it('counts a runner that throws as a failure', async () => {
+        const graph = buildTaskGraph([task('a'), task('b', { dependencies: ['a'] })]);
+        const finished: string[] = [];
+
+        await runTaskGraph(graph, async () => {
+            throw new Error('agent crashed');
+        }, {
+            maxParallel: 1,
+            onFinish: (t) => finished.push(`${t.id}:${t.status}`),
+        });
+
+        expect(graph.tasks[0]).toMatchObject({ status: 'failed', error: 'agent crashed' });
+        expect(graph.tasks[1].status).toBe('skipped');
+        expect(finished).toEqual(['a:failed']);
+    });
+
+    it('treats completed tasks as done and skips those behind earlier failures', async () => {
+        const graph = buildTaskGraph([
+            task('done', { status: 'completed' }),
+            task('broken', { status: 'failed' }),
+            task('next', { dependencies: ['done'] }),
+            task('stuck', { dependencies: ['broken'] }),
+        ]);
+        const ran: string[] = [];
+
+        await runTaskGraph(graph, async (t) => {
+            ran.push(t.id);
+            return true;
+        }, { maxParallel: 1 });
+
+        expect(ran).toEqual(['next']);
+        expect(graph.tasks[3]).toMatchObject({ status: 'skipped', error: 'Prerequisite "broken" failed' });
+    });
+});
@@ -0,0 +1,187 @@
+/**
+ * CLI - Task Scheduler
+ * Runs PRD tasks as a dependency graph: each task starts as soon as its
+ * prerequisites have succeeded, and dependents of failed tasks are skipped
+ */
+
+import type { Task } from '@opencode-harness/shared';
+
+/**
+ * Raised when task dependencies loop back on themselves
+ */
+export class TaskCycleError extends Error {
+    constructor(public readonly cycle: string[]) {
+        super(`Task dependencies form a cycle: ${cycle.join(' → ')}`);
+        this.name = 'TaskCycleError';
+    }
+}
+
+/**
+ * Prerequisites of every task, after `parallelGroup` ordering is applied
+ */
+export interface TaskGraph {
+    tasks: Task[];
+    prerequisites: Map<string, Set<string>>;
+}
+
+/**
+ * Runs one task; resolve true on success. Throwing counts as failure.
+ */
+export type TaskRunner = (task: Task) => Promise<boolean>;
+
+export interface ScheduleOptions {
+    maxParallel: number;
+    onStart?: (task: Task) => void;
+    onFinish?: (task: Task) => void;
+    /** `blockedBy` is the failed or skipped prerequisite */
+    onSkip?: (task: Task, blockedBy: Task) => void;
+}
+
+/**
+ * Build the graph: declared `dependencies`, plus every task in a
+ * `parallelGroup` waiting for all tasks in lower groups.
+ * Throws on unknown dependencies and on cycles.
+ */
+export function buildTaskGraph(tasks: Task[]): TaskGraph {
+    const ids = new Set(tasks.map((task) => task.id));
+    const prerequisites = new Map<string, Set<string>>();
+
+    for (const task of tasks) {
+        const before = new Set<string>();
+
+        for (const dependency of task.dependencies ?? []) {
+            if (!ids.has(dependency)) {
+                throw new Error(`Task "${task.id}" depends on unknown task "${dependency}"`);
+            }
+            if (dependency === task.id) throw new TaskCycleError([task.id, task.id]);
+            before.add(dependency);
+        }
+
+        if (task.parallelGroup !== undefined) {
+            for (const other of tasks) {
+                if (other.parallelGroup !== undefined && other.parallelGroup < task.parallelGroup) {
+                    before.add(other.id);
+                }
+            }
+        }
+
+        prerequisites.set(task.id, before);
+    }
+
+    const cycle = findCycle(tasks, prerequisites);
+    if (cycle) throw new TaskCycleError(cycle);
+
+    return { tasks, prerequisites };
+}
+
+/**
+ * Run every pending task in dependency order, at most `maxParallel` at a time.
+ * Tasks already `completed` count as satisfied prerequisites.
+ * Updates each task's `status`, `completedAt` and `error` in place.
+ */
+export async function runTaskGraph(
+    graph: TaskGraph,
+    runner: TaskRunner,
+    options: ScheduleOptions
+): Promise<Task[]> {
+    const byId = new Map(graph.tasks.map((task) => [task.id, task]));
+    const waiting = graph.tasks.filter((task) => task.status === 'pending');
+    const running = new Map<string, Promise<void>>();
+    const maxParallel = Math.max(1, options.maxParallel);
+
+    const prerequisitesOf = (task: Task) =>
+        [...(graph.prerequisites.get(task.id) ?? [])].map((id) => byId.get(id) as Task);
+
+    const start = (task: Task) => {
+        task.status = 'running';
+        options.onStart?.(task);
+
+        const run = runner(task)
+            .then((success) => {
+                task.status = success ? 'completed' : 'failed';
+            })
+            .catch((error: unknown) => {
+                task.status = 'failed';
+                task.error ??= error instanceof Error ? error.message : String(error);
+            })
+            .finally(() => {
+                if (task.status === 'completed') task.completedAt = Date.now();
+                running.delete(task.id);
+                options.onFinish?.(task);
+            });
+        running.set(task.id, run);
+    };
+
+    while (waiting.length > 0 || running.size > 0) {
+        // Skip whatever can no longer run; repeat so skips propagate down the chain
+        let skipped = true;
+        while (skipped) {
+            skipped = false;
+            for (const task of [...waiting]) {
+                const blocker = prerequisitesOf(task).find((p) => p.status === 'failed' || p.status === 'skipped');
+                if (!blocker) continue;
+
+                task.status = 'skipped';
+                task.error = `Prerequisite "${blocker.id}" ${blocker.status === 'failed' ? 'failed' : 'was skipped'}`;
+                waiting.splice(waiting.indexOf(task), 1);
+                options.onSkip?.(task, blocker);
+                skipped = true;
+            }
+        }
+
+        // Start ready tasks in PRD order
+        for (const task of [...waiting]) {
+            if (running.size >= maxParallel) break;
+            if (!prerequisitesOf(task).every((p) => p.status === 'completed')) continue;
+
+            waiting.splice(waiting.indexOf(task), 1);
+            start(task);
+        }
+
+        if (running.size === 0) {
+            // Prerequisites that are neither pending nor done (e.g. already failed in the file)
+            for (const task of waiting.splice(0)) {
+                const blocker = prerequisitesOf(task).find((p) => p.status !== 'completed') as Task;
+                task.status = 'skipped';
+                task.error = `Prerequisite "${blocker.id}" is ${blocker.status}`;
+                options.onSkip?.(task, blocker);
+            }
+            break;
+        }
+
+        await Promise.race(running.values());
+    }
+
+    return graph.tasks;
+}
+
+// Helpers
+
+/**
+ * Depth-first search for a cycle; returns its ids (first id repeated at the end)
+ */
+function findCycle(tasks: Task[], prerequisites: Map<string, Set<string>>): string[] | null {
+    const state = new Map<string, 'visiting' | 'done'>();
+    const path: string[] = [];
+
+    const visit = (id: string): string[] | null => {
+        if (state.get(id) === 'done') return null;
+        if (state.get(id) === 'visiting') return [...path.slice(path.indexOf(id)), id];
+
+        state.set(id, 'visiting');
+        path.push(id);
+        for (const next of prerequisites.get(id) ?? []) {
+            const cycle = visit(next);
+            if (cycle) return cycle;
+        }
+        path.pop();
+        state.set(id, 'done');
+        return null;
+    };
+
+    for (const task of tasks) {
+        const cycle = visit(task.id);
+        if (cycle) return cycle;
+    }
+    return null;
+}
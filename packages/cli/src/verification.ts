@@ -0,0 +1,195 @@
+/**
+ * CLI - Verification Gates
+ * Runs the project's checks after an iteration so "done" means they pass
+ */
+
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { execa } from 'execa';
+import chalk from 'chalk';
+import type {
+    HarnessConfig,
+    VerificationCommand,
+    VerificationKind,
+    VerificationReport,
+    VerificationResult,
+} from '@opencode-harness/shared';
+
+/**
+ * package.json scripts used when no checks are configured, cheapest first
+ */
+const DETECTED_SCRIPTS: Array<[VerificationKind, string[]]> = [
+    ['typecheck', ['typecheck', 'type-check', 'check-types', 'tsc']],
+    ['lint', ['lint']],
+    ['test', ['test']],
+];
+
+export interface VerificationSelection {
+    /** Include `test` checks (--no-tests turns them off) */
+    tests: boolean;
+    /** Include `lint` checks (--no-lint turns them off) */
+    lint: boolean;
+}
+
+/**
+ * The checks to run: `tasks.verify` from config, or detected package.json scripts
+ */
+export async function resolveVerificationCommands(
+    cwd: string,
+    config: HarnessConfig,
+    selection: VerificationSelection
+): Promise<VerificationCommand[]> {
+    const configured = config.tasks.verify ?? [];
+    const commands = configured.length > 0 ? configured : await detectVerificationCommands(cwd);
+
+    return commands.filter((command) => {
+        if (command.kind === 'test') return selection.tests && config.tasks.runTestsAfter;
+        if (command.kind === 'lint') return selection.lint && config.tasks.runLintAfter;
+        return true;
+    });
+}
+
+/**
+ * Checks from package.json scripts (skipping npm's placeholder test script)
+ */
+export async function detectVerificationCommands(cwd: string): Promise<VerificationCommand[]> {
+    const packagePath = join(cwd, 'package.json');
+    if (!existsSync(packagePath)) return [];
+
+    let scripts: Record<string, string>;
+    try {
+        scripts = (JSON.parse(await readFile(packagePath, 'utf-8')) as { scripts?: Record<string, string> }).scripts ?? {};
+    } catch {
+        return [];
+    }
+
+    const runner = detectRunner(cwd);
+    const commands: VerificationCommand[] = [];
+
+    for (const [kind, names] of DETECTED_SCRIPTS) {
+        const name = names.find((candidate) => scripts[candidate]);
+        if (!name) continue;
+        if (kind === 'test' && /no test specified/i.test(scripts[name])) continue;
+
+        commands.push({ name: kind, kind, command: `${runner} run ${name}` });
+    }
+
+    return commands;
+}
+
+/**
+ * Run every check (a failure doesn't stop the rest, so feedback is complete)
+ */
+export async function runVerification(
+    cwd: string,
+    commands: VerificationCommand[],
+    config: HarnessConfig
+): Promise<VerificationReport> {
+    const results: VerificationResult[] = [];
+
+    for (const check of commands) {
+        const started = Date.now();
+        const result = await execa(check.command, {
+            cwd,
+            shell: true,
+            reject: false,
+            all: true,
+            timeout: check.timeoutMs ?? config.tasks.verifyTimeout,
+            env: { ...process.env, CI: '1', FORCE_COLOR: '0' },
+        });
+
+        const exitCode = typeof result.exitCode === 'number' ? result.exitCode : null;
+        const passed = exitCode === 0 && !result.timedOut;
+
+        results.push({
+            name: check.name,
+            kind: check.kind,
+            command: check.command,
+            passed,
+            exitCode,
+            timedOut: Boolean(result.timedOut),
+            durationMs: Date.now() - started,
+            output: passed ? '' : trimOutput(String(result.all ?? ''), config.tasks.verifyOutputLines),
+            optional: check.optional,
+        });
+    }
+
+    return {
+        passed: results.every((result) => result.passed || result.optional),
+        results,
+        at: Date.now(),
+    };
+}
+
+/**
+ * Prompt section describing failed checks, for the next iteration
+ */
+export function formatVerificationForPrompt(report: VerificationReport): string {
+    const failed = report.results.filter((result) => !result.passed);
+    if (failed.length === 0) return '';
+
+    const parts = [
+        '## Verification Failures',
+        '',
+        'The harness ran the project\'s checks after the last attempt. These did not pass:',
+    ];
+
+    for (const result of failed) {
+        parts.push('', `### ${result.name} (\`${result.command}\`): ${describeFailure(result)}${result.optional ? ' (optional)' : ''}`);
+        if (result.output) {
+            parts.push('```', result.output, '```');
+        }
+    }
+
+    parts.push('', 'Fix these before reporting the task as completed.');
+    return parts.join('\n');
+}
+
+/**
+ * One line per check
+ */
+export function printVerificationReport(report: VerificationReport): void {
+    for (const result of report.results) {
+        const seconds = `${(result.durationMs / 1000).toFixed(1)}s`;
+        if (result.passed) {
+            console.log(chalk.green(`  ✓ ${result.name}`) + chalk.gray(` (${seconds})`));
+        } else {
+            const color = result.optional ? chalk.yellow : chalk.red;
+            console.log(color(`  ✗ ${result.name}: ${describeFailure(result)}`) + chalk.gray(` (${seconds})`));
+        }
+    }
+}
+
+/**
+ * "exit 1", "timed out", ...
+ */
+export function describeFailure(result: VerificationResult): string {
+    if (result.timedOut) return 'timed out';
+    return result.exitCode === null ? 'did not run' : `exit ${result.exitCode}`;
+}
+
+// Helpers
+
+function detectRunner(cwd: string): string {
+    if (existsSync(join(cwd, 'pnpm-lock.yaml'))) return 'pnpm';
+    if (existsSync(join(cwd, 'yarn.lock'))) return 'yarn';
+    if (existsSync(join(cwd, 'bun.lockb')) || existsSync(join(cwd, 'bun.lock'))) return 'bun';
+    return 'npm';
+}
+
+/**
+ * Keep the head and tail of long output (first errors and the final summary)
+ */
+function trimOutput(output: string, maxLines: number): string {
+    const lines = output.replace(/\x1b\[[0-9;]*m/g, '').trim().split('\n');
+    if (lines.length <= maxLines) return lines.join('\n');
+
+    const head = Math.ceil(maxLines / 2);
+    const tail = maxLines - head;
+    return [
+        ...lines.slice(0, head),
+        `... (${lines.length - maxLines} lines omitted)`,
+        ...lines.slice(lines.length - tail),
+    ].join('\n');
+}
@@ -0,0 +1,237 @@
+/**
+ * CLI - Git Worktrees
+ * One worktree per parallel task, so agents don't trample each other's edits
+ */
+
+import { readFile, writeFile, readdir, mkdir, rm, rmdir, symlink, appendFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { basename, dirname, join, resolve, relative } from 'path';
+import { execa } from 'execa';
+import { getHarnessDir, type HarnessConfig, type Task } from '@opencode-harness/shared';
+
+/**
+ * A harness-created worktree and the task it belongs to
+ * (saved as `<name>.json` in the project's worktrees directory)
+ */
+export interface TaskWorktree {
+    name: string;
+    path: string;
+    branch: string;
+    taskId: string;
+    title: string;
+    createdAt: number;
+    status: 'running' | 'completed' | 'failed';
+    error?: string;
+}
+
+/**
+ * Get the directory holding task worktree records for a project
+ */
+export function getWorktreesDir(projectPath: string): string {
+    return join(getHarnessDir(projectPath), 'worktrees');
+}
+
+/**
+ * Get the directory the worktrees themselves are checked out in: a sibling of
+ * the repository, so test runners, linters and searches in the project never see them
+ */
+export function getWorktreeCheckoutsDir(repoRoot: string): string {
+    return join(dirname(repoRoot), `${basename(repoRoot)}.harness-worktrees`);
+}
+
+/**
+ * Create a worktree on a new `branchPrefix` branch from `baseBranch`.
+ * `name` is used for the directory and branch; a suffix is added if either is taken.
+ */
+export async function createTaskWorktree(
+    projectPath: string,
+    task: Task,
+    name: string,
+    config: HarnessConfig,
+    baseBranch = 'HEAD'
+): Promise<TaskWorktree> {
+    const root = await getRepoRoot(projectPath);
+    const dir = getWorktreesDir(root);
+    await mkdir(dir, { recursive: true });
+    await excludeFromGit(root, dir);
+
+    const checkouts = getWorktreeCheckoutsDir(root);
+    await mkdir(checkouts, { recursive: true });
+    const unique = await reserveName(checkouts, name, (candidate) => branchExists(root, config.parallel.branchPrefix + candidate));
+
+    const worktree: TaskWorktree = {
+        name: unique,
+        path: join(checkouts, unique),
+        branch: config.parallel.branchPrefix + unique,
+        taskId: task.id,
+        title: task.title,
+        createdAt: Date.now(),
+        status: 'running',
+    };
+
+    try {
+        await execa('git', ['worktree', 'add', '-b', worktree.branch, worktree.path, baseBranch], { cwd: root });
+    } catch (error) {
+        await rm(worktree.path, { recursive: true, force: true });
+        throw error;
+    }
+    await linkDependencies(root, worktree.path);
+    await saveWorktree(root, worktree);
+    return worktree;
+}
+
+/**
+ * Check out a new `branchPrefix` branch from `baseBranch` in the main checkout
+ * (for tasks run without a worktree); a suffix is added if the name is taken.
+ * Returns the branch.
+ */
+export async function createTaskBranch(
+    projectPath: string,
+    name: string,
+    config: HarnessConfig,
+    baseBranch: string
+): Promise<string> {
+    let branch = config.parallel.branchPrefix + name;
+    for (let n = 2; await branchExists(projectPath, branch); n++) {
+        branch = `${config.parallel.branchPrefix}${name}-${n}`;
+    }
+
+    await execa('git', ['checkout', '-b', branch, baseBranch], { cwd: projectPath });
+    return branch;
+}
+
+/**
+ * Record a worktree's final status
+ */
+export async function finishWorktree(
+    projectPath: string,
+    worktree: TaskWorktree,
+    status: TaskWorktree['status'],
+    error?: string
+): Promise<void> {
+    worktree.status = status;
+    worktree.error = error;
+    await saveWorktree(await getRepoRoot(projectPath), worktree);
+}
+
+/**
+ * Remove a worktree and its record (the branch is kept)
+ */
+export async function removeTaskWorktree(projectPath: string, worktree: TaskWorktree): Promise<void> {
+    const root = await getRepoRoot(projectPath);
+    if (existsSync(worktree.path)) {
+        await execa('git', ['worktree', 'remove', '--force', worktree.path], { cwd: root });
+    }
+    await rm(join(getWorktreesDir(root), `${worktree.name}.json`), { force: true });
+}
+
+/**
+ * Harness worktrees that still exist, oldest first
+ */
+export async function listTaskWorktrees(projectPath: string): Promise<TaskWorktree[]> {
+    const root = await getRepoRoot(projectPath);
+    const dir = getWorktreesDir(root);
+    if (!existsSync(dir)) return [];
+
+    const worktrees: TaskWorktree[] = [];
+    for (const file of await readdir(dir)) {
+        if (!file.endsWith('.json')) continue;
+        try {
+            worktrees.push(JSON.parse(await readFile(join(dir, file), 'utf-8')) as TaskWorktree);
+        } catch {
+            // Skip files that are not worktree records
+        }
+    }
+
+    return worktrees.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Remove harness worktrees (all, or only those matching `filter`) and let git
+ * forget any whose directory is already gone. Returns what was removed.
+ */
+export async function pruneTaskWorktrees(
+    projectPath: string,
+    filter: (worktree: TaskWorktree) => boolean = () => true
+): Promise<TaskWorktree[]> {
+    const root = await getRepoRoot(projectPath);
+    const removed: TaskWorktree[] = [];
+
+    for (const worktree of await listTaskWorktrees(root)) {
+        if (!filter(worktree)) continue;
+        await removeTaskWorktree(root, worktree);
+        removed.push(worktree);
+    }
+
+    await execa('git', ['worktree', 'prune'], { cwd: root });
+    // Drop the checkouts directory once nothing is left in it
+    await rmdir(getWorktreeCheckoutsDir(root)).catch(() => undefined);
+    return removed;
+}
+
+/**
+ * Whether the project is inside a git repository with at least one commit
+ */
+export async function canUseWorktrees(projectPath: string): Promise<boolean> {
+    const head = await execa('git', ['rev-parse', '--verify', 'HEAD'], { cwd: projectPath, reject: false });
+    return head.exitCode === 0;
+}
+
+// Helpers
+
+async function getRepoRoot(projectPath: string): Promise<string> {
+    const result = await execa('git', ['rev-parse', '--show-toplevel'], { cwd: projectPath });
+    return result.stdout.trim();
+}
+
+async function branchExists(root: string, branch: string): Promise<boolean> {
+    const result = await execa('git', ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`], { cwd: root, reject: false });
+    return result.exitCode === 0;
+}
+
+/**
+ * Claim `name` (or `name-2`, `name-3`, ...) by creating its directory; mkdir
+ * fails if another task got there first, so two tasks never share a name
+ */
+async function reserveName(dir: string, name: string, taken: (candidate: string) => Promise<boolean>): Promise<string> {
+    for (let n = 1; ; n++) {
+        const candidate = n === 1 ? name : `${name}-${n}`;
+        if (await taken(candidate)) continue;
+        try {
+            await mkdir(join(dir, candidate));
+            return candidate;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+        }
+    }
+}
+
+async function saveWorktree(root: string, worktree: TaskWorktree): Promise<void> {
+    await writeFile(join(getWorktreesDir(root), `${worktree.name}.json`), JSON.stringify(worktree, null, 2));
+}
+
+/**
+ * Keep worktree directories out of the main checkout's `git status`
+ */
+async function excludeFromGit(root: string, dir: string): Promise<void> {
+    const gitDir = (await execa('git', ['rev-parse', '--git-common-dir'], { cwd: root })).stdout.trim();
+    const excludePath = join(resolve(root, gitDir), 'info', 'exclude');
+    const pattern = `/${relative(root, dir).split('\\').join('/')}/`;
+
+    const current = existsSync(excludePath) ? await readFile(excludePath, 'utf-8') : '';
+    if (current.split('\n').includes(pattern)) return;
+
+    await mkdir(join(resolve(root, gitDir), 'info'), { recursive: true });
+    await appendFile(excludePath, `${current && !current.endsWith('\n') ? '\n' : ''}${pattern}\n`);
+}
+
+/**
+ * Share the main checkout's node_modules so checks can run in the worktree
+ */
+async function linkDependencies(root: string, worktreePath: string): Promise<void> {
+    const source = join(root, 'node_modules');
+    const target = join(worktreePath, 'node_modules');
+    if (!existsSync(source) || existsSync(target)) return;
+
+    await symlink(source, target, process.platform === 'win32' ? 'junction' : 'dir');
+}
@@ -0,0 +1,182 @@
+/**
+ * OpenCode Harness Plugin - Auto Compaction
+ * Reacts to the tracker's needsCompaction signal
+ */
+
+import {
+    appendCompactionRecord,
+    type CompactionRecord,
+    type ContextItem,
+    type MemoryEntry,
+} from '@opencode-harness/shared';
+import type { ContextTracker } from './context-tracker.js';
+import type { MemoryHooks } from './memory-hooks.js';
+
+/**
+ * Configuration for the compaction controller
+ */
+export interface CompactionConfig {
+    /** Compact automatically when the threshold is crossed */
+    autoCompact: boolean;
+    /** Share of maxTokens to prune the tracker down to */
+    targetRatio: number;
+    /** Items at or above this importance go into the snapshot */
+    snapshotImportance: number;
+}
+
+const DEFAULT_CONFIG: CompactionConfig = {
+    autoCompact: true,
+    targetRatio: 0.5,
+    snapshotImportance: 0.6,
+};
+
+/**
+ * Compaction Controller
+ *
+ * Snapshots the working set into a `summary` memory, prunes the tracker
+ * and records when and why it happened.
+ */
+export function createCompactionController(
+    tracker: ContextTracker,
+    memory: MemoryHooks,
+    projectPath: string | undefined,
+    sessionId: string,
+    initialConfig: Partial<CompactionConfig> = {}
+) {
+    let config = { ...DEFAULT_CONFIG, ...initialConfig };
+    let last: CompactionRecord | null = null;
+    let running: Promise<CompactionRecord> | null = null;
+    const listeners: Array<(record: CompactionRecord) => void> = [];
+
+    /**
+     * Compact if auto-compaction is on and the tracker asks for it
+     */
+    async function check(): Promise<CompactionRecord | null> {
+        if (!config.autoCompact || !tracker.getState().needsCompaction) return null;
+        return compact('threshold');
+    }
+
+    /**
+     * Compact now (concurrent calls share one run)
+     */
+    function compact(reason: CompactionRecord['reason']): Promise<CompactionRecord> {
+        running ??= run(reason).finally(() => {
+            running = null;
+        });
+        return running;
+    }
+
+    async function run(reason: CompactionRecord['reason']): Promise<CompactionRecord> {
+        const { maxTokens } = tracker.getConfig();
+        const before = tracker.getState();
+        const usage = before.totalTokensEstimate / maxTokens;
+
+        const items = tracker.getImportant().filter((item) => item.importance >= config.snapshotImportance);
+        const summary = memory.addSummary(
+            formatSnapshot(reason, usage, maxTokens, items, memory.getSessionMemories()),
+            0.8,
+            { compaction: reason, tokensBefore: before.totalTokensEstimate }
+        );
+
+        tracker.markCompacted();
+        const pruned = tracker.pruneToBudget(Math.floor(maxTokens * config.targetRatio));
+
+        const record: CompactionRecord = {
+            sessionId,
+            at: Date.now(),
+            reason,
+            usage,
+            tokensBefore: before.totalTokensEstimate,
+            tokensAfter: tracker.getState().totalTokensEstimate,
+            itemsPruned: pruned.length,
+            summaryId: summary?.id,
+        };
+        last = record;
+
+        console.log(`[Harness] ${formatCompactionRecord(record)}`);
+        for (const listener of listeners) listener(record);
+
+        if (projectPath) {
+            try {
+                await memory.persist();
+                await appendCompactionRecord(projectPath, record);
+            } catch (error) {
+                console.error('[Harness] Error recording compaction:', error);
+            }
+        }
+
+        return record;
+    }
+
+    /**
+     * The most recent compaction in this session
+     */
+    function getLast(): CompactionRecord | null {
+        return last;
+    }
+
+    /**
+     * Call `listener` after every compaction
+     */
+    function onCompact(listener: (record: CompactionRecord) => void): void {
+        listeners.push(listener);
+    }
+
+    function configure(update: Partial<CompactionConfig>): void {
+        config = { ...config, ...update };
+    }
+
+    return {
+        check,
+        compact,
+        getLast,
+        onCompact,
+        configure,
+    };
+}
+
+export type CompactionController = ReturnType<typeof createCompactionController>;
+
+/**
+ * One-line description of a compaction
+ */
+export function formatCompactionRecord(record: CompactionRecord): string {
+    const why = record.reason === 'threshold'
+        ? `context at ${(record.usage * 100).toFixed(0)}% of limit`
+        : 'requested';
+    return `Context compacted (${why}): ${record.tokensBefore.toLocaleString()} → ` +
+        `${record.tokensAfter.toLocaleString()} tokens, pruned ${record.itemsPruned} items`;
+}
+
+// Helpers
+
+function formatSnapshot(
+    reason: CompactionRecord['reason'],
+    usage: number,
+    maxTokens: number,
+    items: ContextItem[],
+    memories: MemoryEntry[]
+): string {
+    const lines = [
+        `Context snapshot (${reason}, ${(usage * 100).toFixed(0)}% of ${maxTokens.toLocaleString()} tokens)`,
+    ];
+
+    if (items.length > 0) {
+        lines.push('Working set:');
+        for (const item of items.slice(0, 15)) {
+            const summary = item.summary ? ` - ${item.summary}` : '';
+            lines.push(`- ${item.type}: ${item.path}${summary}`);
+        }
+    }
+
+    const notes = memories.filter((m) => m.type !== 'summary');
+    if (notes.length > 0) {
+        lines.push('Session notes:');
+        for (const entry of notes.slice(-10)) {
+            const preview = entry.content.replace(/\s+/g, ' ');
+            lines.push(`- [${entry.type}] ${preview.length > 120 ? `${preview.substring(0, 117)}...` : preview}`);
+        }
+    }
+
+    return lines.join('\n');
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { createBpeTokenizer, createCharTokenizer } from '@opencode-harness/shared';
+import { createContextTracker } from './context-tracker.js';
+
+describe('context tracker token accounting', () => {
+    it('measures items with the configured tokenizer', async () => {
+        const tracker = createContextTracker();
+        tracker.configure({ tokenizer: await createBpeTokenizer() });
+
+        tracker.trackFile('a.ts', 'hello world');
+
+        expect(tracker.getItem('a.ts')?.tokens).toBe(2);
+        expect(tracker.getState().totalTokensEstimate).toBe(2);
+    });
+
+    it('replaces the size of a re-read item instead of adding to it', () => {
+        const tracker = createContextTracker({ tokenizer: createCharTokenizer() });
+
+        tracker.trackFile('a.ts', 'x'.repeat(400));
+        tracker.trackFile('b.ts', 'x'.repeat(40));
+        tracker.trackFile('a.ts', 'x'.repeat(100));
+
+        expect(tracker.getItem('a.ts')).toMatchObject({ tokens: 25, viewCount: 2 });
+        expect(tracker.getState().totalTokensEstimate).toBe(35);
+    });
+
+    it('subtracts pruned items from the total', () => {
+        const tracker = createContextTracker({ tokenizer: createCharTokenizer() });
+        tracker.trackFile('a.ts', 'x'.repeat(400));
+        tracker.trackCommand('npm test', 'x'.repeat(40));
+
+        expect(tracker.prune(2).map((item) => item.tokens)).toEqual([100, 10]);
+        expect(tracker.getState().totalTokensEstimate).toBe(0);
+    });
+
+    it('prunes to a budget until the total fits', () => {
+        const tracker = createContextTracker({ tokenizer: createCharTokenizer() });
+        tracker.trackFile('a.ts', 'x'.repeat(400));
+        tracker.trackFile('b.ts', 'x'.repeat(400));
+        tracker.trackFile('c.ts', 'x'.repeat(400));
+
+        const removed = tracker.pruneToBudget(150);
+
+        expect(removed).toHaveLength(2);
+        expect(tracker.getState().totalTokensEstimate).toBe(100);
+        expect(tracker.getState().items).toHaveLength(1);
+    });
+
+    it('flags compaction from the measured total', () => {
+        const tracker = createContextTracker({ maxTokens: 100, compactionThreshold: 0.5, tokenizer: createCharTokenizer() });
+
+        tracker.trackFile('a.ts', 'x'.repeat(196));
+        expect(tracker.getState().needsCompaction).toBe(false);
+
+        tracker.trackFile('a.ts', 'x'.repeat(200));
+        expect(tracker.getState().needsCompaction).toBe(true);
+    });
+
+    it('leaves state returned earlier untouched', () => {
+        const tracker = createContextTracker({ tokenizer: createCharTokenizer() });
+        tracker.trackFile('a.ts', 'x'.repeat(400));
+        const before = tracker.getState();
+
+        tracker.trackFile('a.ts', 'x'.repeat(40));
+        tracker.trackFile('b.ts', 'x'.repeat(40));
+
+        expect(before.items.map((item) => [item.path, item.tokens])).toEqual([['a.ts', 100]]);
+        expect(before.totalTokensEstimate).toBe(100);
+    });
+});
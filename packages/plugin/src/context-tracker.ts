@@ -3,7 +3,15 @@
  * RLM-inspired context state machine for tracking what the AI has "seen"
  */
 
-import type { ContextItem, ContextState } from '@opencode-harness/shared';
+import {
+    type ContextItem,
+    type ContextState,
+    type Tokenizer,
+    createCharTokenizer,
+} from '@opencode-harness/shared';
+import { qualifiedName, type OutlineSymbol, type SourceOutline } from './outline.js';
+import type { FileFingerprint } from './file-state.js';
+import { DEFAULT_SCORING, scoreContextItem, type ImportanceScoring } from './importance.js';
 
 /**
  * Configuration for context tracker
@@ -11,21 +19,19 @@ import type { ContextItem, ContextState } from '@opencode-harness/shared';
 export interface ContextTrackerConfig {
     maxTokens: number;
     compactionThreshold: number;
-    importanceDecayRate: number;
+    /** Weights for time/frequency/edit/failure based importance */
+    scoring: ImportanceScoring;
+    /** Measures tool output; defaults to the character heuristic */
+    tokenizer: Tokenizer;
 }
 
 const DEFAULT_CONFIG: ContextTrackerConfig = {
     maxTokens: 100000,
     compactionThreshold: 0.8,
-    importanceDecayRate: 0.95,
+    scoring: DEFAULT_SCORING,
+    tokenizer: createCharTokenizer(),
 };
 
-/**
- * Context Tracker - RLM-inspired state machine
- * 
- * Tracks what files, functions, and search results the AI has viewed.
- * Calculates importance scores and signals when compaction is needed.
- */
 /**
  * Context Tracker - RLM-inspired state machine
  * 
@@ -33,67 +39,225 @@ const DEFAULT_CONFIG: ContextTrackerConfig = {
  * Calculates importance scores and signals when compaction is needed.
  */
 export function createContextTracker(initialConfig: Partial<ContextTrackerConfig> = {}) {
-    const config = { ...DEFAULT_CONFIG, ...initialConfig };
+    let config = { ...DEFAULT_CONFIG, ...initialConfig };
     let state: ContextState = {
         items: [],
         totalTokensEstimate: 0,
         needsCompaction: false,
     };
+    const outlines = new Map<string, SourceOutline>();
+    /** Outlined files changed since, whose line ranges can't be trusted */
+    const staleOutlines = new Set<string>();
 
     /**
-     * Record that a file was viewed
+     * Record that a file was viewed (`content` is the text the AI received)
+     * The fingerprint of the file on disk lets later checks spot edits.
      */
-    function trackFile(path: string, tokens: number, summary?: string): void {
+    function trackFile(path: string, content: string, summary?: string, fingerprint?: FileFingerprint): void {
         addItem({
             path,
             type: 'file',
             viewedAt: Date.now(),
-            importance: calculateImportance('file'),
+            tokens: countTokens(content),
             summary,
-        }, tokens);
+            hash: fingerprint?.hash,
+            mtime: fingerprint?.mtime,
+        });
+    }
+
+    /**
+     * Flag a file (and its symbols) as possibly changed since it was viewed
+     */
+    function markStale(path: string, reason: string): boolean {
+        const stale = { reason, at: Date.now() };
+        let found = false;
+        if (outlines.has(path)) staleOutlines.add(path);
+
+        state = {
+            ...state,
+            items: state.items.map((item) => {
+                if (item.path !== path && !item.path.startsWith(`${path}#`)) return item;
+                found = true;
+                return { ...item, stale };
+            }),
+        };
+
+        return found;
+    }
+
+    /**
+     * Record that a tool wrote to a file: it is stale and, being worked on, more important
+     */
+    function markEdited(path: string, reason: string): boolean {
+        const found = markStale(path, reason);
+        if (found) {
+            const now = Date.now();
+            state = {
+                ...state,
+                items: state.items.map((item) => (item.path === path ? { ...item, editedAt: now } : item)),
+            };
+        }
+        return found;
+    }
+
+    /**
+     * Boost files named in a failing command's output
+     */
+    function noteFailure(output: string): ContextItem[] {
+        const now = Date.now();
+        const hit: ContextItem[] = [];
+
+        state = {
+            ...state,
+            items: state.items.map((item) => {
+                if (item.type !== 'file' || !mentions(output, item.path)) return item;
+                const updated = { ...item, failedAt: now };
+                hit.push(updated);
+                return updated;
+            }),
+        };
+
+        return hit;
+    }
+
+    /**
+     * Get the tracked item for a path
+     */
+    function getItem(path: string): ContextItem | undefined {
+        return state.items.find((item) => item.path === path);
     }
 
     /**
      * Record that a function/class was viewed
      */
-    function trackSymbol(path: string, symbolName: string, tokens: number): void {
+    function trackSymbol(path: string, symbolName: string, content: string, symbol?: OutlineSymbol): void {
+        const type = symbol ? symbolItemType(symbol) : 'function';
         addItem({
             path: `${path}#${symbolName}`,
-            type: 'function',
+            type,
             viewedAt: Date.now(),
-            importance: calculateImportance('function'),
-        }, tokens);
+            tokens: countTokens(content),
+            summary: symbol?.signature,
+            range: symbol ? { start: symbol.startLine, end: symbol.endLine } : undefined,
+        });
+    }
+
+    /**
+     * Record the symbols of a file that was read
+     *
+     * Symbol items cost no tokens of their own - the file item already counts
+     * the text. Until viewed directly they score below files.
+     */
+    function trackOutline(outline: SourceOutline): void {
+        outlines.set(outline.path, outline);
+        staleOutlines.delete(outline.path);
+
+        const prefix = `${outline.path}#`;
+        const current = new Map(outline.symbols.map((symbol) => [prefix + qualifiedName(symbol), symbol]));
+        const removed = state.items.filter((item) => item.path.startsWith(prefix) && !current.has(item.path));
+        const removedTokens = removed.reduce((sum, item) => sum + item.tokens, 0);
+        const items = state.items.filter((item) => !removed.includes(item));
+
+        for (const [path, symbol] of current) {
+            const range = { start: symbol.startLine, end: symbol.endLine };
+            const existing = items.findIndex((item) => item.path === path);
+            if (existing >= 0) {
+                items[existing] = { ...items[existing], range, stale: undefined };
+            } else {
+                const item: ContextItem = {
+                    path,
+                    type: symbolItemType(symbol),
+                    viewedAt: Date.now(),
+                    importance: 0,
+                    tokens: 0,
+                    summary: symbol.signature,
+                    range,
+                    viewCount: 0,
+                };
+                items.push({ ...item, importance: score(item) });
+            }
+        }
+
+        state = { ...state, items, totalTokensEstimate: state.totalTokensEstimate - removedTokens };
+        checkCompactionNeeded();
+    }
+
+    /**
+     * Outline recorded for a file, if it has been read and not changed since
+     */
+    function getOutline(path: string): SourceOutline | undefined {
+        return staleOutlines.has(path) ? undefined : outlines.get(path);
+    }
+
+    /**
+     * Files whose outline is out of date (edited or changed on disk since)
+     */
+    function getStaleOutlines(): string[] {
+        return [...staleOutlines];
+    }
+
+    /**
+     * Find symbols by name or `Class.method` across up-to-date outlines
+     * Exact matches win; otherwise case-insensitive substring matches are returned
+     */
+    function findSymbols(name: string): Array<{ path: string; symbol: OutlineSymbol }> {
+        const current = [...outlines.values()].filter((outline) => !staleOutlines.has(outline.path));
+        const all = current.flatMap((outline) =>
+            outline.symbols.map((symbol) => ({ path: outline.path, symbol }))
+        );
+
+        const exact = all.filter(({ symbol }) => symbol.name === name || qualifiedName(symbol) === name);
+        if (exact.length > 0) return exact;
+
+        const needle = name.toLowerCase();
+        return all.filter(({ symbol }) => qualifiedName(symbol).toLowerCase().includes(needle));
     }
 
     /**
-     * Record a search query
+     * Record a search query and its results
      */
-    function trackSearch(query: string, resultCount: number): void {
+    function trackSearch(query: string, output: string, resultCount: number): void {
         addItem({
             path: `search:${query}`,
             type: 'search',
             viewedAt: Date.now(),
-            importance: calculateImportance('search'),
+            tokens: countTokens(output),
             summary: `${resultCount} results`,
-        }, 100);
+        });
     }
 
     /**
-     * Record a command execution
+     * Record a command execution and its output
      */
-    function trackCommand(command: string, outputTokens: number): void {
+    function trackCommand(command: string, output: string): void {
         addItem({
             path: `cmd:${command.substring(0, 50)}`,
             type: 'command',
             viewedAt: Date.now(),
-            importance: calculateImportance('command'),
-        }, outputTokens);
+            tokens: countTokens(output),
+        });
+    }
+
+    /**
+     * Count tokens with the configured tokenizer
+     */
+    function countTokens(text: string): number {
+        return config.tokenizer.count(text);
+    }
+
+    /**
+     * Update limits or swap the tokenizer (e.g. once project config is loaded)
+     */
+    function configure(update: Partial<ContextTrackerConfig>): void {
+        config = { ...config, ...update };
+        checkCompactionNeeded();
     }
 
     /**
      * Get current context state
      */
     function getState(): ContextState {
+        rescore();
         return { ...state };
     }
 
@@ -101,6 +265,7 @@ export function createContextTracker(initialConfig: Partial<ContextTrackerConfig
      * Get items sorted by importance
      */
     function getByImportance(): ContextItem[] {
+        rescore();
         return [...state.items].sort((a, b) => b.importance - a.importance);
     }
 
@@ -132,16 +297,32 @@ export function createContextTracker(initialConfig: Partial<ContextTrackerConfig
     }
 
     /**
-     * Apply importance decay to all items
-     * Call this periodically to reduce importance of old items
+     * Replace the state with one saved earlier
+     * Scores are time-based, so time spent offline decays importance on its own.
+     * Outlines aren't saved, so files that had symbols are queued for re-outlining.
      */
-    function applyDecay(): void {
+    function restore(saved: ContextState): void {
+        state = { ...saved, items: [...saved.items] };
+        outlines.clear();
+        staleOutlines.clear();
+        for (const item of state.items) {
+            const hash = item.path.indexOf('#');
+            if ((item.type === 'function' || item.type === 'class') && hash > 0) {
+                staleOutlines.add(item.path.slice(0, hash));
+            }
+        }
+        rescore();
+        checkCompactionNeeded();
+    }
+
+    /**
+     * Recompute every item's importance for the current time
+     * Called before anything ranks items, so scores never go stale.
+     */
+    function rescore(now: number = Date.now()): void {
         state = {
             ...state,
-            items: state.items.map((item) => ({
-                ...item,
-                importance: item.importance * config.importanceDecayRate,
-            })),
+            items: state.items.map((item) => ({ ...item, importance: score(item, now) })),
         };
     }
 
@@ -149,6 +330,7 @@ export function createContextTracker(initialConfig: Partial<ContextTrackerConfig
      * Remove low-importance items to free up context
      */
     function prune(importanceThreshold: number = 0.1): ContextItem[] {
+        rescore();
         const removed = state.items.filter(
             (item) => item.importance < importanceThreshold
         );
@@ -158,8 +340,8 @@ export function createContextTracker(initialConfig: Partial<ContextTrackerConfig
             items: state.items.filter(
                 (item) => item.importance >= importanceThreshold
             ),
-            totalTokensEstimate: state.items.reduce(
-                (sum, item) => sum + estimateTokens(item),
+            totalTokensEstimate: state.totalTokensEstimate - removed.reduce(
+                (sum, item) => sum + item.tokens,
                 0
             ),
         };
@@ -168,6 +350,41 @@ export function createContextTracker(initialConfig: Partial<ContextTrackerConfig
         return removed;
     }
 
+    /**
+     * Remove the least important (then oldest) items until the total fits `maxTokens`
+     */
+    function pruneToBudget(maxTokens: number): ContextItem[] {
+        rescore();
+        const victims = [...state.items].sort(
+            (a, b) => a.importance - b.importance || a.viewedAt - b.viewedAt
+        );
+
+        const removed: ContextItem[] = [];
+        let total = state.totalTokensEstimate;
+        for (const item of victims) {
+            if (total <= maxTokens) break;
+            removed.push(item);
+            total -= item.tokens;
+        }
+
+        const removedPaths = new Set(removed.map((item) => item.path));
+        state = {
+            ...state,
+            items: state.items.filter((item) => !removedPaths.has(item.path)),
+            totalTokensEstimate: total,
+        };
+
+        checkCompactionNeeded();
+        return removed;
+    }
+
+    /**
+     * Get the active limits and tokenizer
+     */
+    function getConfig(): ContextTrackerConfig {
+        return { ...config };
+    }
+
     /**
      * Format context for RLM-style navigation prompt
      */
@@ -197,59 +414,53 @@ export function createContextTracker(initialConfig: Partial<ContextTrackerConfig
 
     // Private methods
 
-    function addItem(item: ContextItem, tokens: number): void {
+    function addItem(viewed: Omit<ContextItem, 'importance'>): void {
+        const item: ContextItem = { ...viewed, importance: 0, viewCount: 1 };
+
         // Check if item already exists
         const existingIndex = state.items.findIndex(
             (i) => i.path === item.path
         );
 
         if (existingIndex >= 0) {
-            // Update existing item
+            // Update existing item; a re-read replaces the old size rather than adding to it
             const existing = state.items[existingIndex];
-            state.items[existingIndex] = {
+            const updated: ContextItem = {
                 ...existing,
                 viewedAt: item.viewedAt,
-                importance: Math.min(1, existing.importance + 0.1),
+                viewCount: (existing.viewCount ?? 1) + 1,
+                tokens: item.tokens,
+                range: item.range ?? existing.range,
+                hash: item.hash ?? existing.hash,
+                mtime: item.mtime ?? existing.mtime,
+                // Viewing it again means the agent has the current content
+                stale: undefined,
                 summary: item.summary || existing.summary,
             };
+            state = {
+                ...state,
+                items: state.items.map((i, index) => (index === existingIndex ? { ...updated, importance: score(updated) } : i)),
+                totalTokensEstimate: state.totalTokensEstimate + item.tokens - existing.tokens,
+            };
         } else {
             // Add new item
-            state.items.push(item);
-            state.totalTokensEstimate += tokens;
+            state = {
+                ...state,
+                items: [...state.items, { ...item, importance: score(item) }],
+                totalTokensEstimate: state.totalTokensEstimate + item.tokens,
+            };
         }
 
         checkCompactionNeeded();
     }
 
-    function calculateImportance(type: ContextItem['type']): number {
-        // Base importance by type
-        const baseImportance: Record<ContextItem['type'], number> = {
-            file: 0.7,
-            function: 0.8,
-            class: 0.8,
-            search: 0.5,
-            command: 0.6,
-        };
-
-        return baseImportance[type] ?? 0.5;
-    }
-
-    function estimateTokens(item: ContextItem): number {
-        // Rough estimation based on type
-        const tokenEstimates: Record<ContextItem['type'], number> = {
-            file: 500,
-            function: 200,
-            class: 400,
-            search: 100,
-            command: 150,
-        };
-
-        return tokenEstimates[item.type] ?? 100;
+    function score(item: ContextItem, now: number = Date.now()): number {
+        return scoreContextItem(item, config.scoring, now);
     }
 
     function checkCompactionNeeded(): void {
         const ratio = state.totalTokensEstimate / config.maxTokens;
-        state.needsCompaction = ratio >= config.compactionThreshold;
+        state = { ...state, needsCompaction: ratio >= config.compactionThreshold };
     }
 
     function reset(): void {
@@ -258,6 +469,8 @@ export function createContextTracker(initialConfig: Partial<ContextTrackerConfig
             totalTokensEstimate: 0,
             needsCompaction: false,
         };
+        outlines.clear();
+        staleOutlines.clear();
     }
 
     function getImportant(): ContextItem[] {
@@ -267,18 +480,46 @@ export function createContextTracker(initialConfig: Partial<ContextTrackerConfig
     return {
         trackFile,
         trackSymbol,
+        trackOutline,
+        markStale,
+        getItem,
+        getOutline,
+        getStaleOutlines,
+        findSymbols,
         trackSearch,
         trackCommand,
+        countTokens,
+        configure,
         getState,
+        restore,
         reset,
         hasSeen,
         getRecent,
         getImportant,
-        applyDecay,
+        rescore,
+        markEdited,
+        noteFailure,
         prune,
+        pruneToBudget,
+        getConfig,
         markCompacted,
         formatForPrompt
     };
 }
 
 export type ContextTracker = ReturnType<typeof createContextTracker>;
+
+/**
+ * Whether command output refers to a path (full path or its last two segments)
+ */
+function mentions(output: string, path: string): boolean {
+    if (output.includes(path)) return true;
+    const tail = path.split(/[\\/]/).slice(-2).join('/');
+    return tail.includes('/') && output.includes(tail);
+}
+
+function symbolItemType(symbol: OutlineSymbol): ContextItem['type'] {
+    return symbol.kind === 'function' || symbol.kind === 'method' || symbol.kind === 'variable'
+        ? 'function'
+        : 'class';
+}
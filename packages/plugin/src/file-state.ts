@@ -0,0 +1,171 @@
+/**
+ * OpenCode Harness Plugin - File State
+ * Content fingerprints and snapshots for detecting stale reads
+ */
+
+import { readFile, stat } from 'fs/promises';
+import { createHash } from 'crypto';
+import { isAbsolute, resolve } from 'path';
+
+/**
+ * Identity of a file's content when it was read
+ */
+export interface FileFingerprint {
+    hash: string;
+    mtime: number;
+}
+
+/**
+ * Result of comparing a tracked file with what is on disk now
+ */
+export interface FileChange {
+    /** Missing means the file was deleted */
+    fingerprint?: FileFingerprint;
+    /** Human-readable summary of what changed, when a snapshot was kept */
+    diff?: string;
+}
+
+/** Files larger than this are fingerprinted but not snapshotted */
+const MAX_SNAPSHOT_BYTES = 256 * 1024;
+
+/** Files larger than this are fingerprinted by size and mtime instead of read and hashed */
+const MAX_HASH_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Hash file content (short SHA-1, enough to tell versions apart)
+ */
+export function hashContent(content: string): string {
+    return createHash('sha1').update(content).digest('hex').substring(0, 16);
+}
+
+/**
+ * Read a file and fingerprint it, or null if it cannot be read
+ * (content is null for files too large to read whole)
+ */
+export async function readFileState(
+    path: string,
+    projectPath?: string
+): Promise<{ content: string | null; fingerprint: FileFingerprint } | null> {
+    const fullPath = resolvePath(path, projectPath);
+    try {
+        const info = await stat(fullPath);
+        if (info.size > MAX_HASH_BYTES) {
+            return { content: null, fingerprint: { hash: `size-${info.size}-${info.mtimeMs}`, mtime: info.mtimeMs } };
+        }
+        const content = await readFile(fullPath, 'utf-8');
+        return { content, fingerprint: { hash: hashContent(content), mtime: info.mtimeMs } };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Snapshot store - remembers what each file looked like when last read
+ * so a later change can be summarized. Least recently read files drop out first.
+ */
+export function createFileSnapshots(maxFiles: number = 50) {
+    const snapshots = new Map<string, string>();
+
+    /**
+     * Remember the content seen for a path
+     */
+    function record(path: string, content: string): void {
+        snapshots.delete(path);
+        if (content.length > MAX_SNAPSHOT_BYTES) return;
+
+        snapshots.set(path, content);
+        if (snapshots.size > maxFiles) {
+            snapshots.delete(snapshots.keys().next().value as string);
+        }
+    }
+
+    /**
+     * Compare a fingerprint with the file on disk; null when unchanged
+     */
+    async function compare(
+        path: string,
+        fingerprint: FileFingerprint,
+        projectPath?: string
+    ): Promise<FileChange | null> {
+        // Unchanged mtime: skip reading and hashing
+        try {
+            if ((await stat(resolvePath(path, projectPath))).mtimeMs === fingerprint.mtime) return null;
+        } catch {
+            return {};
+        }
+
+        const current = await readFileState(path, projectPath);
+        if (!current) return {};
+        if (current.fingerprint.hash === fingerprint.hash) return null;
+
+        const before = snapshots.get(path);
+        return {
+            fingerprint: current.fingerprint,
+            diff: before !== undefined && current.content !== null ? summarizeDiff(before, current.content) : undefined,
+        };
+    }
+
+    function clear(): void {
+        snapshots.clear();
+    }
+
+    return {
+        record,
+        compare,
+        clear,
+    };
+}
+
+export type FileSnapshots = ReturnType<typeof createFileSnapshots>;
+
+/**
+ * Summarize a line diff as changed regions, e.g. "L40-52 (+12 −3)"
+ */
+export function summarizeDiff(before: string, after: string): string {
+    const a = before.split('\n');
+    const b = after.split('\n');
+
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+
+    let suffix = 0;
+    while (
+        suffix < a.length - prefix &&
+        suffix < b.length - prefix &&
+        a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const removed = a.slice(prefix, a.length - suffix);
+    const added = b.slice(prefix, b.length - suffix);
+    if (removed.length === 0 && added.length === 0) return 'whitespace or line-ending changes only';
+
+    // Lines present on both sides of the changed block are moves/unchanged, not edits
+    const kept = countCommon(removed, added);
+    const start = prefix + 1;
+    const end = Math.max(start, b.length - suffix);
+
+    const total = after.endsWith('\n') ? b.length - 1 : b.length;
+
+    return `L${start}-${end} changed (+${added.length - kept} −${removed.length - kept} lines, now ${total} lines)`;
+}
+
+function resolvePath(path: string, projectPath?: string): string {
+    return isAbsolute(path) || !projectPath ? path : resolve(projectPath, path);
+}
+
+function countCommon(a: string[], b: string[]): number {
+    const counts = new Map<string, number>();
+    for (const line of a) counts.set(line, (counts.get(line) ?? 0) + 1);
+
+    let common = 0;
+    for (const line of b) {
+        const count = counts.get(line) ?? 0;
+        if (count > 0) {
+            common++;
+            counts.set(line, count - 1);
+        }
+    }
+    return common;
+}
@@ -0,0 +1,71 @@
+/**
+ * OpenCode Harness Plugin - Importance Scoring
+ * How much a tracked item matters right now
+ */
+
+import type { ContextItem } from '@opencode-harness/shared';
+
+/**
+ * Weights for importance scoring
+ */
+export interface ImportanceScoring {
+    /** Base importance by item type */
+    base: Record<ContextItem['type'], number>;
+    /** Minutes for the recency factor to halve */
+    halfLifeMinutes: number;
+    /** Share of the base an item keeps however old it gets */
+    recencyFloor: number;
+    /** Bonus per doubling of the view count */
+    frequencyWeight: number;
+    frequencyCap: number;
+    /** Bonus for files edited since they were read (decays like recency) */
+    editBoost: number;
+    /** Bonus for files named in a failing command's output (decays like recency) */
+    failureBoost: number;
+    /** Items known only from an outline, never viewed directly, count this much of their base */
+    unviewedFactor: number;
+}
+
+export const DEFAULT_SCORING: ImportanceScoring = {
+    base: {
+        file: 0.7,
+        function: 0.8,
+        class: 0.8,
+        search: 0.5,
+        command: 0.6,
+    },
+    halfLifeMinutes: 30,
+    recencyFloor: 0.2,
+    frequencyWeight: 0.1,
+    frequencyCap: 0.3,
+    editBoost: 0.15,
+    failureBoost: 0.25,
+    unviewedFactor: 0.5,
+};
+
+/**
+ * Score an item from elapsed time since `viewedAt`, view count, later edits
+ * and appearances in failing command output (0-1)
+ */
+export function scoreContextItem(
+    item: ContextItem,
+    scoring: ImportanceScoring = DEFAULT_SCORING,
+    now: number = Date.now()
+): number {
+    const views = item.viewCount ?? 1;
+    const base = (scoring.base[item.type] ?? 0.5) * (views === 0 ? scoring.unviewedFactor : 1);
+    const recency = decay(item.viewedAt, scoring.halfLifeMinutes, now);
+
+    const score =
+        base * (scoring.recencyFloor + (1 - scoring.recencyFloor) * recency) +
+        Math.min(scoring.frequencyCap, scoring.frequencyWeight * Math.log2(Math.max(1, views))) +
+        (item.editedAt ? scoring.editBoost * decay(item.editedAt, scoring.halfLifeMinutes, now) : 0) +
+        (item.failedAt ? scoring.failureBoost * decay(item.failedAt, scoring.halfLifeMinutes, now) : 0);
+
+    return Math.max(0, Math.min(1, score));
+}
+
+function decay(at: number, halfLifeMinutes: number, now: number): number {
+    const minutes = Math.max(0, now - at) / 60000;
+    return Math.pow(0.5, minutes / halfLifeMinutes);
+}
@@ -1,10 +1,59 @@
 /**
  * OpenCode Harness Plugin
- * Full version with memory persistence
+ * Full version with context tracking and memory persistence
  */
 
-import { writeFile, mkdir } from "fs/promises";
-import { join, dirname } from "path";
+import { tool } from "@opencode-ai/plugin";
+import {
+    DEFAULT_CONFIG,
+    IPC_PATH_ENV,
+    createTokenizer,
+    loadConfig,
+    pruneContextSnapshots,
+    readContextSnapshot,
+    writeContextSnapshot,
+} from "@opencode-harness/shared";
+import { createContextTracker, type ContextTracker } from "./context-tracker.js";
+import { createMemoryHooks, type MemoryHooks } from "./memory-hooks.js";
+import { createExtractorRegistry, getEditedPaths, type ExtractionPipeline } from "./memory-extractors.js";
+import { createCompactionController, type CompactionController } from "./compaction.js";
+import { createContextNavTool, describeContextNavTool } from "./tools/context-nav.js";
+import { createHarnessCompleteTool } from "./tools/harness-complete.js";
+import { outlineSource, readOutline } from "./outline.js";
+import { createFileSnapshots, readFileState, type FileSnapshots } from "./file-state.js";
+import { createIPCReporter } from "./ipc-reporter.js";
+import type {
+    ChatMessageInput,
+    ChatMessageOutput,
+    MessagePart,
+    PluginEvent,
+    PluginHooks,
+    SystemTransformInput,
+    SystemTransformOutput,
+    ToolDefinition,
+    ToolInput,
+    ToolOutput,
+} from "./types.js";
+
+/**
+ * Per-session harness state
+ */
+interface HarnessSession {
+    tracker: ContextTracker;
+    memory: MemoryHooks;
+    extraction: ExtractionPipeline;
+    compaction: CompactionController;
+    /** File contents as last read, for summarizing later edits */
+    snapshots: FileSnapshots;
+    nav: ToolDefinition;
+    ready: Promise<void>;
+    /** Message ids sent by the user, so their text parts aren't treated as assistant output */
+    userMessages: Set<string>;
+    /** First user message, used to rank memories for injection */
+    task?: string;
+    /** Memory block injected into the system prompt, built once per session */
+    memoryBlock?: string;
+}
 
 export const HarnessPlugin = async (ctx: {
     project?: { path?: string };
@@ -12,55 +61,286 @@ export const HarnessPlugin = async (ctx: {
     client?: { app?: { log?: (entry: unknown) => Promise<void> } };
     directory?: string;
     worktree?: string;
-}) => {
+}): Promise<PluginHooks> => {
     console.log("[Harness] Plugin loaded");
 
     // Get project path - DON'T use process.cwd() as fallback (might cause issues)
     const projectPath = ctx.project?.path || ctx.path || ctx.directory || ctx.worktree;
 
-    // Simple tracking state
-    const tracked = { files: 0, searches: 0, commands: 0 };
+    const sessions = new Map<string, HarnessSession>();
+
+    // Set by `oc-harness run` so task completion and context state reach the CLI
+    const reporter = createIPCReporter(process.env[IPC_PATH_ENV]);
+    const completeTool = createHarnessCompleteTool(tool.schema, {
+        reporter,
+        projectPath,
+        getTracker: (sessionId) => (sessionId ? getSession(sessionId).tracker : undefined),
+    }) as ToolDefinition;
+    const configLoaded = projectPath ? loadConfig(projectPath) : Promise.resolve(DEFAULT_CONFIG);
+
+    // Snapshots of sessions nobody resumed age out like memories do
+    if (projectPath) {
+        configLoaded
+            .then((config) => pruneContextSnapshots(projectPath, config.memory.pruneAfterDays))
+            .then((removed) => {
+                if (removed.length > 0) console.log(`[Harness] Pruned ${removed.length} old context snapshots`);
+            })
+            .catch((err) => console.error("[Harness] Error pruning context snapshots:", err));
+    }
+
+    // Rule-based extractors plus any the team dropped into .opencode/.harness/extractors
+    const extractors = createExtractorRegistry();
+    const extractorsLoaded = projectPath
+        ? extractors.loadFromDirectory(projectPath).catch((err) => {
+            console.error("[Harness] Error loading extractors:", err);
+            return [];
+        })
+        : Promise.resolve([]);
+
+    /**
+     * Get (or lazily create) the tracker and memory hooks for a session
+     */
+    function getSession(sessionId: string): HarnessSession {
+        let session = sessions.get(sessionId);
+        if (session) return session;
+
+        const tracker = createContextTracker();
+        const memory = createMemoryHooks(projectPath ?? "", sessionId);
+        const compaction = createCompactionController(tracker, memory, projectPath, sessionId);
+        compaction.onCompact((record) => reporter.compacted(record.reason));
+        const snapshots = createFileSnapshots();
+        const trackerConfigured = configLoaded
+            .then(async (config) => {
+                tracker.configure({
+                    maxTokens: config.context.maxTokens,
+                    compactionThreshold: config.context.compactionThreshold,
+                });
+                compaction.configure({ autoCompact: config.context.autoCompact });
+                // Until (or unless) the BPE vocabulary loads, the char estimate stays in place
+                tracker.configure({ tokenizer: await createTokenizer(config.context.tokenizer) });
+            })
+            .catch((err) => console.error("[Harness] Error configuring context tracker:", err));
+        // Resumed sessions pick up where they left off before a restart
+        const trackerRestored = trackerConfigured.then(() => restoreContext(sessionId, tracker));
+
+        session = {
+            tracker,
+            memory,
+            extraction: extractors.createPipeline(memory),
+            compaction,
+            snapshots,
+            nav: createContextNavTool(tracker, memory, tool.schema, { compaction, projectPath, snapshots }) as ToolDefinition,
+            // Without a project path there is nowhere to load memory from
+            ready: projectPath
+                ? Promise.all([trackerRestored, memory.initialize(), extractorsLoaded]).then(() => undefined)
+                : trackerConfigured,
+            userMessages: new Set(),
+        };
+        sessions.set(sessionId, session);
+        return session;
+    }
+
+    /**
+     * Persist memory and tracker state for one session, or all sessions when none is given
+     */
+    async function saveSession(sessionId?: string): Promise<void> {
+        if (!projectPath) return;
+
+        const ids = sessionId ? [sessionId] : [...sessions.keys()];
 
-    // Memory save function (no initialization needed)
-    const saveMemory = async () => {
+        for (const id of ids) {
+            const session = sessions.get(id);
+            if (!session) continue;
+
+            await session.ready;
+            await session.memory.persist();
+            reporter.memoriesSaved(session.memory.getSessionMemories());
+            try {
+                await writeContextSnapshot(projectPath, id, session.tracker.getState());
+            } catch (error) {
+                console.error("[Harness] Error saving context:", error);
+            }
+        }
+    }
+
+    /**
+     * Load the tracker state saved for a session, if any
+     */
+    async function restoreContext(sessionId: string, tracker: ContextTracker): Promise<void> {
         if (!projectPath) return;
+
         try {
-            const memoryPath = join(projectPath, ".opencode", ".harness", "memory.json");
-            await mkdir(dirname(memoryPath), { recursive: true });
-            await writeFile(memoryPath, JSON.stringify({ tracked, savedAt: Date.now() }, null, 2));
-            console.log("[Harness] Memory saved");
-        } catch (err) {
-            console.error("[Harness] Save error:", err);
+            const snapshot = await readContextSnapshot(projectPath, sessionId);
+            if (!snapshot) return;
+
+            tracker.restore(snapshot.state);
+            console.log(`[Harness] Restored ${snapshot.state.items.length} context items for session ${sessionId}`);
+        } catch (error) {
+            console.error("[Harness] Error restoring context:", error);
         }
-    };
+    }
 
     return {
         // Event hook
-        async event({ event }: { event: { type: string } }) {
+        async event({ event }: { event: PluginEvent }) {
             if (event.type === "session.idle" || event.type === "session.end") {
-                await saveMemory();
+                const sessionId = getEventSessionId(event);
+                await saveSession(sessionId);
+
+                if (event.type === "session.end" && sessionId) {
+                    sessions.delete(sessionId);
+                }
             }
-        },
 
-        // Tool execution hook
-        async "tool.execute.after"(
-            input: { tool: string },
-            output: { args: Record<string, unknown> },
-            result: string
-        ) {
-            const tool = input.tool;
-
-            if (tool === "read") {
-                tracked.files++;
+            // Completed assistant text parts
+            if (event.type === "message.part.updated") {
+                const part = (event.properties as { part?: MessagePart } | undefined)?.part;
+                const sessionId = part?.sessionID as string | undefined;
+                const finished = (part?.time as { end?: number } | undefined)?.end;
+                if (!part || !sessionId || part.type !== "text" || !part.text || !finished) return;
+
+                const session = getSession(sessionId);
+                if (session.userMessages.has(part.messageID as string)) return;
+
+                await session.ready;
+                session.extraction.process({ kind: "message", sessionId, role: "assistant", text: part.text });
             }
-            if (tool === "grep" || tool === "search") {
-                tracked.searches++;
+        },
+
+        // User message hook
+        async "chat.message"(input: ChatMessageInput, output: ChatMessageOutput) {
+            if (!input.sessionID) return;
+            const session = getSession(input.sessionID);
+            const messageId = output.message?.id ?? input.messageID;
+            if (messageId) session.userMessages.add(messageId);
+
+            const text = output.parts
+                .filter((part) => part.type === "text" && part.text)
+                .map((part) => part.text)
+                .join("\n");
+            if (!text) return;
+            session.task ??= text;
+
+            await session.ready;
+            session.extraction.process({ kind: "message", sessionId: input.sessionID, role: "user", text });
+        },
+
+        // Inject relevant memories into the system prompt
+        async "experimental.chat.system.transform"(input: SystemTransformInput, output: SystemTransformOutput) {
+            const config = await configLoaded;
+            if (!config.memory.enabled || !config.context.injectMemories || !input.sessionID) return;
+
+            const session = getSession(input.sessionID);
+            await session.ready;
+
+            // The system prompt is rebuilt per request; rank once the task is known so it stays stable
+            const block = session.memoryBlock
+                ?? session.memory.getContextString(config.context.memoryTokens, session.task);
+            if (session.task) session.memoryBlock = block;
+
+            if (block) {
+                output.system.push(block);
             }
-            if (tool === "bash" || tool === "shell") {
-                tracked.commands++;
+        },
+
+        // Tool execution hook
+        async "tool.execute.after"(input: ToolInput, output: ToolOutput, result?: string) {
+            // Without a session there is no tracker or snapshot to attribute the call to
+            if (!input.sessionID) return;
+            const session = getSession(input.sessionID);
+            const { tracker } = session;
+            const args = output.args ?? input.args ?? {};
+            const text = result ?? output.output ?? "";
+            await session.ready;
+
+            switch (input.tool) {
+                case "read": {
+                    const path = (args.filePath ?? args.path) as string | undefined;
+                    if (path) {
+                        const file = await readFileState(path, projectPath);
+                        tracker.trackFile(path, text, undefined, file?.fingerprint);
+                        if (file && file.content !== null) session.snapshots.record(path, file.content);
+
+                        // Files too large to read whole are too large to outline
+                        const outline = file
+                            ? file.content !== null ? await outlineSource(path, file.content) : null
+                            : await readOutline(path, projectPath, text);
+                        if (outline) tracker.trackOutline(outline);
+                    }
+                    break;
+                }
+                case "write":
+                case "edit":
+                case "multiedit":
+                case "patch":
+                case "apply_patch": {
+                    for (const path of getEditedPaths(args)) {
+                        tracker.markEdited(path, `modified by ${input.tool}`);
+                    }
+                    break;
+                }
+                case "grep":
+                case "glob":
+                case "search": {
+                    const query = (args.pattern ?? args.query) as string | undefined;
+                    if (query) tracker.trackSearch(query, text, countResults(text));
+                    break;
+                }
+                case "bash":
+                case "shell": {
+                    const command = args.command as string | undefined;
+                    if (command) tracker.trackCommand(command, text);
+
+                    const exit = output.metadata?.exit;
+                    if (typeof exit === "number" && exit !== 0) tracker.noteFailure(text);
+                    break;
+                }
             }
+
+            await session.compaction.check();
+            reporter.contextUpdated(tracker.getState());
+
+            const exit = output.metadata?.exit;
+            session.extraction.process({
+                kind: "tool",
+                sessionId: input.sessionID,
+                tool: input.tool,
+                args,
+                output: text,
+                exitCode: typeof exit === "number" ? exit : undefined,
+            });
+        },
+
+        tool: {
+            "context-nav": {
+                ...describeContextNavTool(tool.schema),
+                async execute(args: Record<string, unknown>, toolCtx: unknown) {
+                    const sessionId = getToolSessionId(toolCtx);
+                    if (!sessionId) return "❌ Error: context-nav needs a session id";
+
+                    const session = getSession(sessionId);
+                    await session.ready;
+                    return session.nav.execute(args, toolCtx);
+                },
+            },
+            "harness-complete": completeTool,
         },
     };
 };
 
+// Helpers
+
+function countResults(text: string): number {
+    return text.split("\n").filter((line) => line.trim().length > 0).length;
+}
+
+function getEventSessionId(event: PluginEvent): string | undefined {
+    const properties = event.properties as { sessionID?: string } | undefined;
+    return properties?.sessionID ?? (event.sessionID as string | undefined);
+}
+
+function getToolSessionId(toolCtx: unknown): string | undefined {
+    return (toolCtx as { sessionID?: string } | undefined)?.sessionID;
+}
+
 export default HarnessPlugin;
@@ -0,0 +1,102 @@
+/**
+ * OpenCode Harness Plugin - IPC Reporter
+ * Reports task completion, context state and memory saves to the CLI
+ */
+
+import {
+    TASK_ID_ENV,
+    createIPCClient,
+    isTaskSuccess,
+    type ContextState,
+    type IPCClient,
+    type MemoryEntry,
+    type Task,
+    type TaskResult,
+} from '@opencode-harness/shared';
+
+/**
+ * IPC Reporter
+ *
+ * Connects to the CLI when it launched this process; every method is a
+ * no-op otherwise.
+ */
+export function createIPCReporter(path: string | undefined) {
+    let task: Task | null = null;
+    const reported = new Set<string>();
+
+    const client: IPCClient | null = path
+        ? createIPCClient(path, {
+            role: 'plugin',
+            onMessage(message) {
+                if (message.type === 'task.start') task = message.payload;
+            },
+        })
+        : null;
+
+    const connected = client
+        ? client.connect().then((ok) => {
+            if (ok) console.log(`[Harness] Reporting to CLI at ${path}`);
+            return ok;
+        })
+        : Promise.resolve(false);
+
+    function contextUpdated(state: ContextState): void {
+        client?.send({ type: 'context.update', payload: state });
+    }
+
+    function compacted(reason: string): void {
+        client?.send({ type: 'context.compact', payload: { reason } });
+    }
+
+    /**
+     * Report memories that were persisted; each entry is only sent once
+     */
+    function memoriesSaved(entries: MemoryEntry[]): void {
+        if (!client) return;
+
+        for (const entry of entries) {
+            if (reported.has(entry.id)) continue;
+            reported.add(entry.id);
+            client.send({ type: 'memory.save', payload: entry });
+        }
+    }
+
+    /**
+     * Report the current task's result; false if the CLI gave no task or isn't listening
+     */
+    function taskCompleted(result: TaskResult): boolean {
+        const taskId = result.taskId ?? getTaskId();
+        if (!client || !taskId) return false;
+
+        client.send({ type: 'task.complete', payload: { taskId, success: isTaskSuccess(result), result } });
+        return true;
+    }
+
+    function getTask(): Task | null {
+        return task;
+    }
+
+    /**
+     * Id of the task being worked on: from the CLI's task.start, else its environment
+     */
+    function getTaskId(): string | undefined {
+        return task?.id ?? process.env[TASK_ID_ENV];
+    }
+
+    async function close(): Promise<void> {
+        await client?.close();
+    }
+
+    return {
+        connected,
+        contextUpdated,
+        compacted,
+        memoriesSaved,
+        taskCompleted,
+        getTask,
+        getTaskId,
+        close,
+    };
+}
+
+export type IPCReporter = ReturnType<typeof createIPCReporter>;
@@ -0,0 +1,171 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+    createDecisionExtractor,
+    createExtractorRegistry,
+    createFailedCommandExtractor,
+    createPreferenceExtractor,
+    createRecurringEditExtractor,
+    type ExtractorEvent,
+} from './memory-extractors.js';
+import { createMemoryHooks } from './memory-hooks.js';
+
+let projectPath: string | undefined;
+
+afterEach(async () => {
+    if (projectPath) await rm(projectPath, { recursive: true, force: true });
+    projectPath = undefined;
+});
+
+const bash = (command: string, output: string, exitCode?: number): ExtractorEvent =>
+    ({ kind: 'tool', sessionId: 's', tool: 'bash', args: { command }, output, exitCode });
+
+const edit = (tool: string, args: Record<string, unknown>): ExtractorEvent =>
+    ({ kind: 'tool', sessionId: 's', tool, args, output: '' });
+
+function preferences(text: string, role: 'user' | 'assistant' = 'user'): string[] {
+    return createPreferenceExtractor()
+        .extract({ kind: 'message', sessionId: 's', role, text })
+        .map((memory) => memory.content);
+}
+
+describe('createPreferenceExtractor', () => {
+    it.each([
+        'From now on, use pnpm instead of npm.',
+        'Use tabs from now on.',
+        'Going forward, run the linter before committing.',
+        'Always use named exports.',
+        'Never commit directly to main.',
+        "Please don't ever touch the generated files.",
+        'In the future, always add a changelog entry.',
+    ])('keeps the directive "%s"', (sentence) => {
+        expect(preferences(sentence)).toEqual([sentence]);
+    });
+
+    it.each([
+        'I never liked this API.',
+        'It always fails on CI.',
+        'Never mind, it works now.',
+        'In the future we might split this package.',
+        'This is something that will never happen.',
+    ])('ignores the incidental "%s"', (sentence) => {
+        expect(preferences(sentence)).toEqual([]);
+    });
+
+    it('picks the directive out of a longer message', () => {
+        expect(preferences('The build broke again. It never works on the first try. Always run tsc before pushing!')).toEqual([
+            'Always run tsc before pushing!',
+        ]);
+    });
+
+    it('only listens to the user', () => {
+        expect(preferences('Always use named exports.', 'assistant')).toEqual([]);
+    });
+});
+
+describe('createFailedCommandExtractor', () => {
+    it('remembers a failing command once the same command passes, with the files edited in between', () => {
+        const extractor = createFailedCommandExtractor();
+
+        expect(extractor.extract(bash('npm  test', 'building\nError: expected 2 to be 3\nmore', 1))).toEqual([]);
+        extractor.extract(edit('edit', { filePath: 'src/math.ts' }));
+        extractor.extract(edit('apply_patch', { patchText: '*** Begin Patch\n*** Update File: src/math.test.ts\n@@\n*** End Patch' }));
+
+        expect(extractor.extract(bash('npm test', 'ok', 0))).toEqual([{
+            type: 'error',
+            content: '`npm test` failed: Error: expected 2 to be 3. Fixed by editing src/math.ts, src/math.test.ts.',
+            importance: 0.9,
+        }]);
+    });
+
+    it('falls back to the failure pattern when there is no exit code', () => {
+        const extractor = createFailedCommandExtractor();
+
+        extractor.extract(bash('make', 'make: *** [all] exit code 2'));
+
+        expect(extractor.extract(bash('make', 'done'))[0].content).toBe('`make` failed: make: *** [all] exit code 2. Passed on retry without edits.');
+    });
+
+    it('trusts a zero exit code over error-looking output', () => {
+        const extractor = createFailedCommandExtractor();
+
+        expect(extractor.extract(bash('grep -r error .', 'src/a.ts: throw new Error()', 0))).toEqual([]);
+        expect(extractor.extract(bash('grep -r error .', 'nothing', 0))).toEqual([]);
+    });
+});
+
+describe('createRecurringEditExtractor', () => {
+    it('reports a file once when it reaches the threshold', () => {
+        const extractor = createRecurringEditExtractor(3);
+        const patch = { patchText: '*** Update File: src/a.ts\n*** Add File: src/b.ts' };
+
+        expect(extractor.extract(edit('edit', { filePath: 'src/a.ts' }))).toEqual([]);
+        expect(extractor.extract(edit('write', { path: 'src/a.ts' }))).toEqual([]);
+        expect(extractor.extract(edit('apply_patch', patch)).map((m) => m.content)).toEqual([
+            'src/a.ts is a hotspot: edited 3+ times in one session',
+        ]);
+        expect(extractor.extract(edit('edit', { filePath: 'src/a.ts' }))).toEqual([]);
+    });
+
+    it('ignores tools that do not edit', () => {
+        const extractor = createRecurringEditExtractor(1);
+
+        expect(extractor.extract(edit('read', { filePath: 'src/a.ts' }))).toEqual([]);
+    });
+});
+
+describe('createDecisionExtractor', () => {
+    it('picks "Decision:" lines out of assistant messages', () => {
+        const extractor = createDecisionExtractor();
+        const text = 'Looked at both options.\n- **Decision:** Use SQLite for the cache\nDecision: keep the CLI flags';
+
+        expect(extractor.extract({ kind: 'message', sessionId: 's', role: 'assistant', text }).map((m) => m.content)).toEqual([
+            'Use SQLite for the cache',
+            'keep the CLI flags',
+        ]);
+        expect(extractor.extract({ kind: 'message', sessionId: 's', role: 'user', text })).toEqual([]);
+    });
+});
+
+describe('createExtractorRegistry', () => {
+    async function createMemory() {
+        projectPath = await mkdtemp(join(tmpdir(), 'harness-extractors-'));
+        const memory = createMemoryHooks(projectPath, 's');
+        await memory.initialize();
+        return memory;
+    }
+
+    it('writes each extracted memory once across events', async () => {
+        const memory = await createMemory();
+        const pipeline = createExtractorRegistry().createPipeline(memory);
+        const message: ExtractorEvent = { kind: 'message', sessionId: 's', role: 'assistant', text: 'Decision: use vitest' };
+
+        expect(pipeline.process(message)).toBe(1);
+        expect(pipeline.process(message)).toBe(0);
+        expect(memory.getSessionMemories().map((m) => [m.type, m.content])).toEqual([['decision', 'use vitest']]);
+    });
+
+    it('loads extractors from the project and runs them in new pipelines', async () => {
+        const memory = await createMemory();
+        const dir = join(projectPath!, '.opencode', '.harness', 'extractors');
+        await mkdir(dir, { recursive: true });
+        await writeFile(join(dir, 'todo.mjs'), [
+            'export default () => ({',
+            "    name: 'todo',",
+            '    extract: (event) => event.kind === "message" && event.text.startsWith("TODO ")',
+            "        ? [{ type: 'context', content: event.text.slice(5) }]",
+            '        : [],',
+            '});',
+        ].join('\n'));
+
+        const registry = createExtractorRegistry();
+        expect(await registry.loadFromDirectory(projectPath!)).toEqual(['todo']);
+        expect(registry.list()).toContain('todo');
+
+        registry.createPipeline(memory).process({ kind: 'message', sessionId: 's', role: 'user', text: 'TODO update the docs' });
+
+        expect(memory.getSessionMemories().map((m) => [m.type, m.content])).toEqual([['context', 'update the docs']]);
+    });
+});
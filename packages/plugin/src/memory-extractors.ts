@@ -0,0 +1,349 @@
+/**
+ * OpenCode Harness Plugin - Memory Extractors
+ * Turns tool results and session messages into memories automatically
+ */
+
+import { readdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import type { MemoryType } from '@opencode-harness/shared';
+import type { MemoryHooks } from './memory-hooks.js';
+
+/**
+ * Something that happened in a session that may be worth remembering
+ */
+export type ExtractorEvent =
+    | {
+        kind: 'tool';
+        sessionId: string;
+        tool: string;
+        args: Record<string, unknown>;
+        output: string;
+        exitCode?: number;
+    }
+    | {
+        kind: 'message';
+        sessionId: string;
+        role: 'user' | 'assistant';
+        text: string;
+    };
+
+/**
+ * A memory proposed by an extractor
+ */
+export interface ExtractedMemory {
+    type: Exclude<MemoryType, 'summary'>;
+    content: string;
+    importance?: number;
+}
+
+/**
+ * Extractors are stateful per session, so they are registered as factories
+ */
+export interface MemoryExtractor {
+    name: string;
+    extract(event: ExtractorEvent): ExtractedMemory[];
+}
+
+export type MemoryExtractorFactory = () => MemoryExtractor;
+
+const COMMAND_TOOLS = new Set(['bash', 'shell']);
+const EDIT_TOOLS = new Set(['edit', 'write', 'patch', 'multiedit', 'apply_patch']);
+const FAILURE_PATTERN = /\b(error|failed|failure|exception|command not found)\b|exit code [1-9]/i;
+
+// ============================================================================
+// Default extractors
+// ============================================================================
+
+/**
+ * Failing command followed by a passing run of the same command -> error memory
+ */
+export function createFailedCommandExtractor(): MemoryExtractor {
+    const failures = new Map<string, { error: string; edits: Set<string> }>();
+
+    return {
+        name: 'failed-command',
+        extract(event) {
+            if (event.kind !== 'tool') return [];
+
+            if (EDIT_TOOLS.has(event.tool)) {
+                for (const path of getEditedPaths(event.args)) {
+                    for (const failure of failures.values()) failure.edits.add(path);
+                }
+                return [];
+            }
+
+            if (!COMMAND_TOOLS.has(event.tool)) return [];
+            const command = normalizeCommand(event.args.command);
+            if (!command) return [];
+
+            if (commandFailed(event)) {
+                if (!failures.has(command)) {
+                    failures.set(command, { error: firstErrorLine(event.output), edits: new Set() });
+                }
+                return [];
+            }
+
+            const failure = failures.get(command);
+            if (!failure) return [];
+            failures.delete(command);
+
+            const fix = failure.edits.size > 0
+                ? `Fixed by editing ${[...failure.edits].slice(0, 5).join(', ')}.`
+                : 'Passed on retry without edits.';
+
+            return [{
+                type: 'error',
+                content: `\`${command}\` failed: ${failure.error}. ${fix}`,
+                importance: 0.9,
+            }];
+        },
+    };
+}
+
+/**
+ * Files edited repeatedly in one session -> finding memory
+ */
+export function createRecurringEditExtractor(threshold: number = 3): MemoryExtractor {
+    const edits = new Map<string, number>();
+
+    return {
+        name: 'recurring-edit',
+        extract(event) {
+            if (event.kind !== 'tool' || !EDIT_TOOLS.has(event.tool)) return [];
+
+            const memories: ExtractedMemory[] = [];
+            for (const path of getEditedPaths(event.args)) {
+                const count = (edits.get(path) ?? 0) + 1;
+                edits.set(path, count);
+                if (count !== threshold) continue;
+
+                memories.push({
+                    type: 'finding',
+                    content: `${path} is a hotspot: edited ${count}+ times in one session`,
+                    importance: 0.6,
+                });
+            }
+            return memories;
+        },
+    };
+}
+
+/**
+ * Explicit standing instructions from the user -> preference memory:
+ * "from now on …" anywhere, or a sentence opening with "Always …" /
+ * "Never …" ("I never liked this" and "never mind" don't count)
+ */
+export function createPreferenceExtractor(): MemoryExtractor {
+    const standing = /\b(from now on|going forward|from here on)\b/i;
+    const imperative = /^(?:(?:please|and|also|so)\s+)?(?:in the future,?\s+(?:please\s+)?)?(?:always|never|don't ever|do not ever)\s+(?!mind\b)[a-z]/i;
+
+    return {
+        name: 'preference',
+        extract(event) {
+            if (event.kind !== 'message' || event.role !== 'user') return [];
+
+            return splitSentences(event.text)
+                .filter((sentence) => standing.test(sentence) || imperative.test(sentence))
+                .map((sentence) => ({ type: 'preference' as const, content: sentence, importance: 0.8 }));
+        },
+    };
+}
+
+/**
+ * "Decision: ..." lines in assistant output -> decision memory
+ */
+export function createDecisionExtractor(): MemoryExtractor {
+    const pattern = /^\s*(?:[-*]\s*)?\**decision\**:\**\s*(.+)$/i;
+
+    return {
+        name: 'decision',
+        extract(event) {
+            if (event.kind !== 'message' || event.role !== 'assistant') return [];
+
+            const memories: ExtractedMemory[] = [];
+            for (const line of event.text.split('\n')) {
+                const match = line.match(pattern);
+                if (match) {
+                    memories.push({ type: 'decision', content: match[1].trim(), importance: 0.8 });
+                }
+            }
+            return memories;
+        },
+    };
+}
+
+export const DEFAULT_EXTRACTORS: Record<string, MemoryExtractorFactory> = {
+    'failed-command': createFailedCommandExtractor,
+    'recurring-edit': () => createRecurringEditExtractor(),
+    preference: createPreferenceExtractor,
+    decision: createDecisionExtractor,
+};
+
+// ============================================================================
+// Registry & pipeline
+// ============================================================================
+
+/**
+ * Extractor Registry - holds the extractor factories used for new sessions
+ */
+export function createExtractorRegistry(
+    defaults: Record<string, MemoryExtractorFactory> = DEFAULT_EXTRACTORS
+) {
+    const factories = new Map(Object.entries(defaults));
+
+    /**
+     * Add or replace an extractor
+     */
+    function register(name: string, factory: MemoryExtractorFactory): void {
+        factories.set(name, factory);
+    }
+
+    /**
+     * Remove an extractor
+     */
+    function unregister(name: string): boolean {
+        return factories.delete(name);
+    }
+
+    /**
+     * Names of registered extractors
+     */
+    function list(): string[] {
+        return [...factories.keys()];
+    }
+
+    /**
+     * Load team extractors from `.opencode/.harness/extractors/*.js`
+     * Each module default-exports a MemoryExtractorFactory
+     */
+    async function loadFromDirectory(projectPath: string): Promise<string[]> {
+        const dir = join(projectPath, '.opencode', '.harness', 'extractors');
+        if (!existsSync(dir)) return [];
+
+        const loaded: string[] = [];
+        const files = (await readdir(dir)).filter((f) => f.endsWith('.js') || f.endsWith('.mjs'));
+
+        for (const file of files) {
+            try {
+                const mod = await import(pathToFileURL(join(dir, file)).href);
+                if (typeof mod.default !== 'function') {
+                    console.warn(`[Harness] Extractor ${file} has no default export factory`);
+                    continue;
+                }
+                const factory = mod.default as MemoryExtractorFactory;
+                const name = factory().name;
+                register(name, factory);
+                loaded.push(name);
+            } catch (error) {
+                console.error(`[Harness] Error loading extractor ${file}:`, error);
+            }
+        }
+
+        return loaded;
+    }
+
+    /**
+     * Create a session pipeline that writes extracted memories into `memory`
+     */
+    function createPipeline(memory: MemoryHooks) {
+        let extractors: MemoryExtractor[] | null = null;
+        const written = new Set<string>();
+
+        const writers: Record<ExtractedMemory['type'], (content: string, importance?: number) => void> = {
+            decision: memory.addDecision,
+            finding: memory.addFinding,
+            error: memory.addError,
+            preference: memory.addPreference,
+            context: memory.addContext,
+        };
+
+        /**
+         * Run every extractor over an event, returning how many memories were added
+         */
+        function process(event: ExtractorEvent): number {
+            // Instantiate lazily so extractors loaded after session start are included
+            extractors ??= [...factories.values()].map((factory) => factory());
+
+            let added = 0;
+            for (const extractor of extractors) {
+                let memories: ExtractedMemory[];
+                try {
+                    memories = extractor.extract(event);
+                } catch (error) {
+                    console.error(`[Harness] Extractor ${extractor.name} failed:`, error);
+                    continue;
+                }
+
+                for (const extracted of memories) {
+                    const key = `${extracted.type}:${extracted.content}`;
+                    if (written.has(key) || isKnown(memory, extracted)) continue;
+
+                    writers[extracted.type](extracted.content, extracted.importance);
+                    written.add(key);
+                    added++;
+                }
+            }
+
+            return added;
+        }
+
+        return { process };
+    }
+
+    return {
+        register,
+        unregister,
+        list,
+        loadFromDirectory,
+        createPipeline,
+    };
+}
+
+export type ExtractorRegistry = ReturnType<typeof createExtractorRegistry>;
+export type ExtractionPipeline = ReturnType<ExtractorRegistry['createPipeline']>;
+
+/**
+ * Paths a write/edit tool touched (`filePath`, or the headers of a patch)
+ */
+export function getEditedPaths(args: Record<string, unknown>): string[] {
+    const path = (args.filePath ?? args.path) as string | undefined;
+    if (path) return [path];
+
+    const patch = (args.patchText ?? args.patch) as string | undefined;
+    if (!patch) return [];
+    return [...patch.matchAll(/^\*\*\* (?:Update|Add|Delete) File: (.+)$/gm)].map((m) => m[1].trim());
+}
+
+// Helpers
+
+function isKnown(memory: MemoryHooks, extracted: ExtractedMemory): boolean {
+    return memory.getSessionMemories().some(
+        (e) => e.type === extracted.type && e.content === extracted.content
+    );
+}
+
+
+function normalizeCommand(command: unknown): string | undefined {
+    if (typeof command !== 'string') return undefined;
+    return command.trim().replace(/\s+/g, ' ').substring(0, 120) || undefined;
+}
+
+function commandFailed(event: Extract<ExtractorEvent, { kind: 'tool' }>): boolean {
+    if (event.exitCode !== undefined) return event.exitCode !== 0;
+    return FAILURE_PATTERN.test(event.output);
+}
+
+function firstErrorLine(output: string): string {
+    const lines = output.split('\n').map((line) => line.trim()).filter(Boolean);
+    const line = lines.find((l) => FAILURE_PATTERN.test(l)) ?? lines[0] ?? 'no output';
+    return line.length > 200 ? `${line.substring(0, 197)}...` : line;
+}
+
+function splitSentences(text: string): string[] {
+    return text
+        .split(/(?<=[.!?])\s+|\n+/)
+        .map((sentence) => sentence.trim())
+        .filter((sentence) => sentence.length > 0 && sentence.length <= 300);
+}
@@ -3,19 +3,29 @@
  * Session memory persistence hooks
  */
 
-import { readFile, writeFile, mkdir } from 'fs/promises';
-import { join, dirname } from 'path';
-import { existsSync } from 'fs';
 import {
     type MemoryStore,
     type MemoryEntry,
     createMemoryStore,
     addMemoryEntry,
-    pruneOldMemories,
     getRecentMemories,
     getImportantMemories,
     formatMemoriesForContext,
+    createMemoryIndex,
+    type MemoryIndex,
+    type MemorySearchOptions,
+    applyRetention,
+    formatRetentionReport,
+    loadConfig,
+    DEFAULT_CONFIG,
+    type HarnessConfig,
+    type RetentionReport,
+    getProjectId,
+    mergeMemoryStores,
+    createMemoryBackend,
+    type MemoryBackend,
 } from '@opencode-harness/shared';
+import { basename } from 'path';
 
 /**
  * Memory Hooks - Session persistence layer
@@ -25,36 +35,60 @@ import {
  */
 export function createMemoryHooks(projectPath: string, sessionId: string) {
     let store: MemoryStore | null = null;
+    // What this session last read from / wrote to disk, for merge-on-write
+    let base: MemoryStore | null = null;
     let dirty = false;
-
-    /**
-     * Get the memory file path
-     */
-    const memoryPath = join(projectPath, '.opencode', '.harness', 'memory.json');
-
-    function getProjectId(): string {
-        return projectPath.replace(/[\\/:]/g, '-').replace(/^-+|-+$/g, '').toLowerCase();
-    }
+    let readOnly = false;
+    let index: MemoryIndex | null = null;
+    let policy: HarnessConfig['memory'] = DEFAULT_CONFIG.memory;
+    let lastRetention: RetentionReport | null = null;
+    let backend: MemoryBackend | null = null;
 
     /**
      * Initialize memory store (load from disk or create new)
      */
     async function initialize(): Promise<void> {
+        policy = (await loadConfig(projectPath)).memory;
+        if (!policy.enabled) {
+            // Leave the store unloaded: adds become no-ops and nothing is written
+            console.log('[Harness] Memory disabled in config');
+            return;
+        }
+
         try {
-            if (existsSync(memoryPath)) {
-                const content = await readFile(memoryPath, 'utf-8');
-                store = JSON.parse(content);
-                // Prune old memories on load (keep last 30 days)
-                store = pruneOldMemories(store!, 30);
-                dirty = true;
-            } else {
-                store = createMemoryStore(getProjectId());
+            backend = createMemoryBackend(projectPath, policy.backend);
+            const result = await backend.load();
+            if (!result) {
+                store = createMemoryStore(getProjectId(projectPath));
+                base = store;
                 dirty = true;
+                return;
             }
+
+            if (result.readOnly) {
+                console.warn(
+                    `[Harness] ${basename(backend.path)} was written by a newer harness (v${result.sourceVersion}); ` +
+                    'memories are read-only for this session'
+                );
+                readOnly = true;
+            } else if (result.migrated || result.rejected.length > 0) {
+                // Keep the original around before the migrated store replaces it
+                await backup(result.migrated ? `v${result.sourceVersion}` : 'rejected');
+                if (result.rejected.length > 0) {
+                    console.warn(`[Harness] Skipped ${result.rejected.length} invalid memory entries`);
+                }
+            }
+
+            store = result.store;
+            base = store;
+            await enforceRetention();
+            dirty = true;
         } catch (error) {
             console.error('[Harness] Error loading memory:', error);
-            // Fallback to new store
-            store = createMemoryStore(getProjectId());
+            // Keep the unreadable file, then fall back to a new store
+            await backup('corrupt');
+            store = createMemoryStore(getProjectId(projectPath));
+            base = store;
             dirty = true;
         }
     }
@@ -63,21 +97,75 @@ export function createMemoryHooks(projectPath: string, sessionId: string) {
      * Save memory store to disk
      */
     async function persist(): Promise<void> {
-        if (!store || !dirty) return;
+        if (!store || !backend || !dirty || readOnly) return;
+
+        if (store.entries.length > policy.maxEntries) {
+            await enforceRetention();
+        }
 
         try {
-            const dir = dirname(memoryPath);
-            await mkdir(dir, { recursive: true });
-            await writeFile(memoryPath, JSON.stringify(store, null, 2));
-            dirty = false;
+            // Other sessions/agents may have written since we loaded: merge rather than overwrite
+            const local = store;
+            const saved = await backend.save(base ?? createMemoryStore(local.projectId), local);
+
+            // Keep anything added while the write was in flight
+            store = store === local ? saved : mergeMemoryStores(local, store, saved);
+            base = saved;
+            index = null;
+            dirty = store !== saved;
         } catch (error) {
             console.error('[Harness] Error saving memory:', error);
         }
     }
 
-    function addEntry(type: MemoryEntry['type'], content: string, importance: number): void {
+    /**
+     * Apply pruneAfterDays / maxEntries and report what was removed
+     */
+    async function enforceRetention(): Promise<void> {
         if (!store) return;
 
+        const result = await applyRetention(store, policy, { activeSessionId: sessionId });
+        store = result.store;
+        index = null;
+        lastRetention = result.report;
+
+        const summary = formatRetentionReport(result.report);
+        if (summary) {
+            console.log(`[Harness] ${summary}`);
+            for (const entry of result.report.evicted.slice(0, 5)) {
+                console.log(`[Harness]   evicted [${entry.type}] ${entry.content.substring(0, 60)}`);
+            }
+        }
+    }
+
+    /**
+     * What the last retention pass removed
+     */
+    function getRetentionReport(): RetentionReport | null {
+        return lastRetention;
+    }
+
+    /**
+     * Copy the current memory file aside before it gets replaced
+     */
+    async function backup(reason: string): Promise<void> {
+        if (!backend?.exists()) return;
+
+        try {
+            await backend.backup(reason);
+        } catch (error) {
+            console.error('[Harness] Error backing up memory:', error);
+        }
+    }
+
+    function addEntry(
+        type: MemoryEntry['type'],
+        content: string,
+        importance: number,
+        metadata?: Record<string, unknown>
+    ): MemoryEntry | null {
+        if (!store) return null;
+
         const entry: MemoryEntry = {
             id: crypto.randomUUID(),
             timestamp: Date.now(),
@@ -85,10 +173,13 @@ export function createMemoryHooks(projectPath: string, sessionId: string) {
             type,
             content,
             importance: Math.max(0, Math.min(1, importance)),
+            metadata,
         };
 
         store = addMemoryEntry(store, entry);
+        index?.add(entry);
         dirty = true;
+        return entry;
     }
 
     /**
@@ -126,17 +217,30 @@ export function createMemoryHooks(projectPath: string, sessionId: string) {
         addEntry('context', content, importance);
     }
 
+    /**
+     * Add a summary memory (e.g. a compaction snapshot); returns null when memory is disabled
+     */
+    function addSummary(
+        content: string,
+        importance: number = 0.8,
+        metadata?: Record<string, unknown>
+    ): MemoryEntry | null {
+        return addEntry('summary', content, importance, metadata);
+    }
+
     /**
      * Get memories formatted for LLM context
+     * When a query is given, memories relevant to it are listed first
      */
-    function getContextString(maxTokens: number = 2000): string {
-        if (!store) return '';
+    function getContextString(maxTokens: number = 2000, query?: string): string {
+        if (!store || store.entries.length === 0) return '';
 
         const recent = getRecentMemories(store, 20);
         const important = getImportantMemories(store, 0.7);
+        const relevant = query ? searchMemories(query, { limit: 20 }) : [];
 
         // Dedup and combine
-        const combined = [...important, ...recent];
+        const combined = [...relevant, ...important, ...recent];
         const unique = combined.filter((entry, index, self) =>
             index === self.findIndex((e) => e.id === entry.id)
         );
@@ -153,24 +257,24 @@ export function createMemoryHooks(projectPath: string, sessionId: string) {
     }
 
     /**
-     * Search memories by content
+     * Search memories, ranked by BM25 relevance blended with recency and importance
      */
-    function searchMemories(query: string): MemoryEntry[] {
+    function searchMemories(query: string, options: MemorySearchOptions = {}): MemoryEntry[] {
         if (!store) return [];
-        const lowerQuery = query.toLowerCase();
-        return store.entries.filter((e) =>
-            e.content.toLowerCase().includes(lowerQuery)
-        );
+        index ??= createMemoryIndex(store.entries);
+        return index.search(query, options).map((result) => result.entry);
     }
 
     return {
         initialize,
         persist,
+        getRetentionReport,
         addDecision,
         addFinding,
         addError,
         addPreference,
         addContext,
+        addSummary,
         getContextString,
         getSessionMemories,
         searchMemories
@@ -178,3 +282,4 @@ export function createMemoryHooks(projectPath: string, sessionId: string) {
 }
 
 export type MemoryHooks = ReturnType<typeof createMemoryHooks>;
+
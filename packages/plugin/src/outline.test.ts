@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { extractOutline, loadTypeScript, outlineSource } from './outline.js';
+import { createContextTracker } from './context-tracker.js';
+
+const SOURCE = [
+    'import { readFile } from "fs/promises";',
+    '',
+    '/** Options */',
+    'export interface Options {',
+    '    verbose: boolean;',
+    '}',
+    '',
+    'export type Mode = "a" | "b";',
+    '',
+    'export enum Level { Low, High }',
+    '',
+    'export const VERSION = 1;',
+    'const internal = 2;',
+    '',
+    'export function createStore(options: Options) {',
+    '    const data = new Map<string, string>();',
+    '',
+    '    function get(key: string) {',
+    '        return data.get(key);',
+    '    }',
+    '',
+    '    return { get };',
+    '}',
+    '',
+    'export const load = async (path: string) => {',
+    '    return readFile(path, "utf-8");',
+    '};',
+    '',
+    'export class Cache {',
+    '    private size = 0;',
+    '',
+    '    constructor(private readonly limit: number) {}',
+    '',
+    '    get(key: string): string | undefined {',
+    '        return undefined;',
+    '    }',
+    '',
+    '    clear = () => {',
+    '        this.size = 0;',
+    '    };',
+    '}',
+    '',
+].join('\n');
+
+const summarize = (source: string) =>
+    extractOutline('store.ts', source)?.symbols.map((s) => [s.parent ? `${s.parent}.${s.name}` : s.name, s.kind, s.startLine, s.endLine, s.exported]);
+
+describe('extractOutline', () => {
+    it('finds the same symbols with the TypeScript parser as with the line scanner', async () => {
+        const scanned = summarize(SOURCE);
+        expect(await loadTypeScript()).toBe(true);
+        const parsed = summarize(SOURCE);
+
+        expect(parsed).toEqual([
+            ['Options', 'interface', 4, 6, true],
+            ['Mode', 'type', 8, 8, true],
+            ['Level', 'enum', 10, 10, true],
+            ['VERSION', 'variable', 12, 12, true],
+            ['createStore', 'function', 15, 23, true],
+            ['createStore.get', 'function', 18, 20, false],
+            ['load', 'function', 25, 27, true],
+            ['Cache', 'class', 29, 41, true],
+            ['Cache.constructor', 'method', 32, 32, false],
+            ['Cache.get', 'method', 34, 36, false],
+            ['Cache.clear', 'method', 38, 40, false],
+        ]);
+        expect(parsed).toEqual(scanned);
+    });
+
+    it('parses TSX with braces inside template literals', async () => {
+        const source = [
+            'export const render = (x: number) => `${x > 1 ? "}" : "{"}`;',
+            'export function after() {}',
+        ].join('\n');
+
+        const outline = await outlineSource('view.tsx', source);
+
+        expect(outline?.symbols.map((s) => [s.name, s.startLine])).toEqual([['render', 1], ['after', 2]]);
+    });
+
+    it('skips text too large to outline', async () => {
+        const minified = `export function big() {}\n${'x'.repeat(1024 * 1024)}`;
+
+        expect(await outlineSource('bundle.js', minified)).toBeNull();
+    });
+});
+
+describe('context tracker outlines', () => {
+    it('stops serving an outline once its file is edited', async () => {
+        const tracker = createContextTracker();
+        const outline = await outlineSource('store.ts', SOURCE);
+        tracker.trackOutline(outline!);
+        expect(tracker.findSymbols('Cache.get')).toHaveLength(1);
+
+        tracker.markEdited('store.ts', 'modified by edit');
+
+        expect(tracker.getOutline('store.ts')).toBeUndefined();
+        expect(tracker.getStaleOutlines()).toEqual(['store.ts']);
+        expect(tracker.findSymbols('Cache.get')).toEqual([]);
+
+        tracker.trackOutline((await outlineSource('store.ts', `\n${SOURCE}`))!);
+
+        expect(tracker.getStaleOutlines()).toEqual([]);
+        expect(tracker.findSymbols('Cache.get')[0].symbol.startLine).toBe(35);
+    });
+
+    it('re-outlines the files a restored session had outlined', async () => {
+        const tracker = createContextTracker();
+        tracker.trackOutline((await outlineSource('store.ts', SOURCE))!);
+
+        const restored = createContextTracker();
+        restored.restore(tracker.getState());
+
+        expect(restored.getStaleOutlines()).toEqual(['store.ts']);
+        restored.trackOutline((await outlineSource('store.ts', SOURCE))!);
+        expect(restored.findSymbols('Cache.get')).toHaveLength(1);
+    });
+});
@@ -0,0 +1,677 @@
+/**
+ * OpenCode Harness Plugin - Source Outline
+ * Lightweight symbol extraction for files the agent reads. TS/JS files go
+ * through the TypeScript parser when `typescript` can be imported, and
+ * through a brace-counting line scanner otherwise.
+ */
+
+import { readFile, stat } from 'fs/promises';
+import { extname, isAbsolute, resolve } from 'path';
+import type * as TypeScript from 'typescript';
+
+export type OutlineLanguage = 'typescript' | 'javascript' | 'python' | 'go';
+
+export type OutlineSymbolKind =
+    | 'function'
+    | 'method'
+    | 'class'
+    | 'interface'
+    | 'type'
+    | 'enum'
+    | 'variable';
+
+/**
+ * A declaration found in a source file
+ */
+export interface OutlineSymbol {
+    name: string;
+    kind: OutlineSymbolKind;
+    /** 1-based, inclusive */
+    startLine: number;
+    endLine: number;
+    exported: boolean;
+    /** Enclosing class or function */
+    parent?: string;
+    /** Declaration line, trimmed */
+    signature: string;
+}
+
+/**
+ * Symbols of one file
+ */
+export interface SourceOutline {
+    path: string;
+    language: OutlineLanguage;
+    lines: number;
+    symbols: OutlineSymbol[];
+}
+
+const LANGUAGES: Record<string, OutlineLanguage> = {
+    '.ts': 'typescript',
+    '.tsx': 'typescript',
+    '.mts': 'typescript',
+    '.cts': 'typescript',
+    '.js': 'javascript',
+    '.jsx': 'javascript',
+    '.mjs': 'javascript',
+    '.cjs': 'javascript',
+    '.py': 'python',
+    '.go': 'go',
+};
+
+/** Files larger than this are not outlined */
+const MAX_OUTLINE_BYTES = 1024 * 1024;
+
+/**
+ * Detect the outline language from a file extension
+ */
+export function detectLanguage(path: string): OutlineLanguage | null {
+    return LANGUAGES[extname(path).toLowerCase()] ?? null;
+}
+
+/** The TypeScript compiler once loaded (null if it isn't installed) */
+let typescript: typeof TypeScript | null | undefined;
+
+/**
+ * Load the TypeScript compiler for TS/JS outlines; resolves false if it
+ * isn't installed, in which case the line scanner is used
+ */
+export async function loadTypeScript(): Promise<boolean> {
+    if (typescript === undefined) {
+        typescript = await import('typescript')
+            .then((mod) => ((mod as { default?: typeof TypeScript }).default ?? mod) as typeof TypeScript)
+            .catch(() => null);
+    }
+    return typescript !== null;
+}
+
+/**
+ * Extract functions, classes and exports from source text
+ * (TS/JS use the TypeScript parser only if `loadTypeScript` has finished)
+ */
+export function extractOutline(path: string, source: string): SourceOutline | null {
+    const language = detectLanguage(path);
+    if (!language) return null;
+
+    const symbols = language === 'python'
+        ? outlinePython(source)
+        : language === 'go'
+            ? outlineGo(source)
+            : typescript
+                ? outlineWithCompiler(typescript, path, source)
+                : outlineScript(source);
+
+    return { path, language, lines: source.split('\n').length, symbols };
+}
+
+/**
+ * Outline source text, loading the TypeScript parser first
+ * (null for text over MAX_OUTLINE_BYTES, e.g. generated or minified files)
+ */
+export async function outlineSource(path: string, source: string): Promise<SourceOutline | null> {
+    if (!detectLanguage(path) || Buffer.byteLength(source) > MAX_OUTLINE_BYTES) return null;
+
+    await loadTypeScript();
+    return extractOutline(path, source);
+}
+
+/**
+ * Outline a file from disk, falling back to the text a read tool returned
+ */
+export async function readOutline(
+    path: string,
+    projectPath?: string,
+    fallback?: string
+): Promise<SourceOutline | null> {
+    if (!detectLanguage(path)) return null;
+
+    const source = await readSource(path, projectPath) ?? (fallback !== undefined ? stripLineNumbers(fallback) : null);
+    return source === null ? null : outlineSource(path, source);
+}
+
+/**
+ * Read a source file relative to the project, or null if it is missing or too large
+ */
+export async function readSource(path: string, projectPath?: string): Promise<string | null> {
+    const fullPath = isAbsolute(path) || !projectPath ? path : resolve(projectPath, path);
+    try {
+        if ((await stat(fullPath)).size > MAX_OUTLINE_BYTES) return null;
+        return await readFile(fullPath, 'utf-8');
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Qualified name used to look a symbol up (`Class.method`)
+ */
+export function qualifiedName(symbol: OutlineSymbol): string {
+    return symbol.parent ? `${symbol.parent}.${symbol.name}` : symbol.name;
+}
+
+// TypeScript / JavaScript (line scanner, without the compiler)
+
+const IDENT = '[A-Za-z_$][\\w$]*';
+const SCRIPT_FUNCTION = new RegExp(`^(export\\s+)?(default\\s+)?(declare\\s+)?(async\\s+)?function\\s*\\*?\\s*(${IDENT})`);
+const SCRIPT_CLASS = new RegExp(`^(export\\s+)?(default\\s+)?(declare\\s+)?(abstract\\s+)?class\\s+(${IDENT})`);
+const SCRIPT_INTERFACE = new RegExp(`^(export\\s+)?(declare\\s+)?interface\\s+(${IDENT})`);
+const SCRIPT_TYPE = new RegExp(`^(export\\s+)?(declare\\s+)?type\\s+(${IDENT})\\b`);
+const SCRIPT_ENUM = new RegExp(`^(export\\s+)?(declare\\s+)?(const\\s+)?enum\\s+(${IDENT})`);
+const SCRIPT_VARIABLE = new RegExp(`^(export\\s+)?(declare\\s+)?(?:const|let|var)\\s+(${IDENT})\\s*(?::[^=]*)?=\\s*(.*)$`);
+const SCRIPT_ARROW = new RegExp(`^(async\\s+)?(\\(|function\\b|${IDENT}\\s*=>)`);
+const MODIFIERS = '(?:(?:public|private|protected|static|readonly|async|abstract|override|declare|get|set)\\s+)*';
+const SCRIPT_METHOD = new RegExp(`^${MODIFIERS}\\*?\\s*(#?${IDENT})\\s*(?:<[^>]*>)?\\s*\\(`);
+const SCRIPT_PROPERTY_ARROW = new RegExp(`^${MODIFIERS}(#?${IDENT})\\s*(?::[^=]*)?=\\s*(async\\s+)?(\\([^)]*\\)|${IDENT})\\s*(?::[^=]*)?=>`);
+const NOT_METHODS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'function', 'new', 'super', 'await', 'yield']);
+
+interface Container {
+    name: string;
+    kind: OutlineSymbolKind;
+    depth: number;
+    endLine: number;
+}
+
+function outlineScript(source: string): OutlineSymbol[] {
+    const lines = source.split('\n');
+    const code = maskSource(source, true).split('\n');
+    const depths = lineDepths(code);
+    const symbols: OutlineSymbol[] = [];
+    const containers: Container[] = [];
+
+    for (let i = 0; i < code.length; i++) {
+        while (containers.length > 0 && containers[containers.length - 1].endLine < i + 1) containers.pop();
+        const parent = containers[containers.length - 1];
+        const text = code[i].trim();
+        if (!text) continue;
+
+        const found = matchScript(text, depths[i], parent);
+        if (!found) continue;
+
+        const endLine = findStatementEnd(code, depths, i, found.block);
+        const symbol: OutlineSymbol = {
+            name: found.name,
+            kind: found.kind,
+            startLine: i + 1,
+            endLine,
+            exported: found.exported,
+            parent: parent?.name,
+            signature: lines[i].trim(),
+        };
+        symbols.push(symbol);
+
+        if (symbol.kind === 'class' || symbol.kind === 'function' || symbol.kind === 'method') {
+            containers.push({ name: qualifiedName(symbol), kind: symbol.kind, depth: depths[i], endLine });
+        }
+    }
+
+    return symbols;
+}
+
+function matchScript(
+    text: string,
+    depth: number,
+    parent: Container | undefined
+): { name: string; kind: OutlineSymbolKind; exported: boolean; block: boolean } | null {
+    // Class bodies hold methods and arrow-function properties
+    if (parent?.kind === 'class') {
+        if (depth !== parent.depth + 1) return null;
+        const method = text.match(SCRIPT_METHOD) ?? text.match(SCRIPT_PROPERTY_ARROW);
+        if (!method || NOT_METHODS.has(method[1])) return null;
+        return { name: method[1], kind: 'method', exported: false, block: true };
+    }
+
+    // Inside functions only named inner functions are worth listing (factory closures)
+    if (parent) {
+        if (depth !== parent.depth + 1) return null;
+        const fn = text.match(SCRIPT_FUNCTION);
+        return fn ? { name: fn[5], kind: 'function', exported: false, block: true } : null;
+    }
+
+    if (depth !== 0) return null;
+
+    let match = text.match(SCRIPT_FUNCTION);
+    if (match) return { name: match[5], kind: 'function', exported: !!match[1], block: true };
+
+    match = text.match(SCRIPT_CLASS);
+    if (match) return { name: match[5], kind: 'class', exported: !!match[1], block: true };
+
+    match = text.match(SCRIPT_INTERFACE);
+    if (match) return { name: match[3], kind: 'interface', exported: !!match[1], block: true };
+
+    match = text.match(SCRIPT_ENUM);
+    if (match) return { name: match[4], kind: 'enum', exported: !!match[1], block: true };
+
+    match = text.match(SCRIPT_TYPE);
+    if (match) return { name: match[3], kind: 'type', exported: !!match[1], block: false };
+
+    match = text.match(SCRIPT_VARIABLE);
+    if (match) {
+        const isFunction = SCRIPT_ARROW.test(match[4]);
+        // Plain module-level variables are noise unless they are part of the API
+        if (!isFunction && !match[1]) return null;
+        return { name: match[3], kind: isFunction ? 'function' : 'variable', exported: !!match[1], block: false };
+    }
+
+    return null;
+}
+
+// TypeScript / JavaScript (compiler API)
+
+/**
+ * Same symbols as `outlineScript`, from the TypeScript AST: top-level
+ * declarations, class members, and named functions declared directly in a
+ * function body (factory closures)
+ */
+function outlineWithCompiler(ts: typeof TypeScript, path: string, source: string): OutlineSymbol[] {
+    const file = ts.createSourceFile(path, source, ts.ScriptTarget.Latest, true, scriptKind(ts, path));
+    const lines = source.split('\n');
+    const symbols: OutlineSymbol[] = [];
+
+    const lineOf = (pos: number) => file.getLineAndCharacterOfPosition(pos).line + 1;
+    const isExported = (node: TypeScript.Node) =>
+        ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some((m) => m.kind === ts.SyntaxKind.ExportKeyword);
+
+    const add = (
+        name: string,
+        kind: OutlineSymbolKind,
+        node: TypeScript.Node,
+        exported: boolean,
+        parent?: OutlineSymbol
+    ): OutlineSymbol => {
+        const startLine = lineOf(node.getStart(file));
+        const symbol: OutlineSymbol = {
+            name,
+            kind,
+            startLine,
+            endLine: lineOf(node.getEnd()),
+            exported,
+            parent: parent ? qualifiedName(parent) : undefined,
+            signature: lines[startLine - 1].trim(),
+        };
+        symbols.push(symbol);
+        return symbol;
+    };
+
+    const isFunctionValue = (node: TypeScript.Node | undefined): node is TypeScript.ArrowFunction | TypeScript.FunctionExpression =>
+        !!node && (ts.isArrowFunction(node) || ts.isFunctionExpression(node));
+
+    const visitBody = (body: TypeScript.Node | undefined, parent: OutlineSymbol) => {
+        if (!body || !ts.isBlock(body)) return;
+        for (const statement of body.statements) {
+            if (ts.isFunctionDeclaration(statement) && statement.name) {
+                visitBody(statement.body, add(statement.name.text, 'function', statement, false, parent));
+            }
+        }
+    };
+
+    const visitClass = (node: TypeScript.ClassDeclaration, symbol: OutlineSymbol) => {
+        for (const member of node.members) {
+            const name = member.name && (ts.isIdentifier(member.name) || ts.isPrivateIdentifier(member.name))
+                ? member.name.text
+                : ts.isConstructorDeclaration(member) ? 'constructor' : null;
+            if (!name) continue;
+
+            if (ts.isMethodDeclaration(member) || ts.isConstructorDeclaration(member) || ts.isGetAccessor(member) || ts.isSetAccessor(member)) {
+                visitBody(member.body, add(name, 'method', member, false, symbol));
+            } else if (ts.isPropertyDeclaration(member) && isFunctionValue(member.initializer)) {
+                visitBody(member.initializer.body, add(name, 'method', member, false, symbol));
+            }
+        }
+    };
+
+    for (const statement of file.statements) {
+        const exported = isExported(statement);
+
+        if (ts.isFunctionDeclaration(statement) && statement.name) {
+            visitBody(statement.body, add(statement.name.text, 'function', statement, exported));
+        } else if (ts.isClassDeclaration(statement) && statement.name) {
+            visitClass(statement, add(statement.name.text, 'class', statement, exported));
+        } else if (ts.isInterfaceDeclaration(statement)) {
+            add(statement.name.text, 'interface', statement, exported);
+        } else if (ts.isTypeAliasDeclaration(statement)) {
+            add(statement.name.text, 'type', statement, exported);
+        } else if (ts.isEnumDeclaration(statement)) {
+            add(statement.name.text, 'enum', statement, exported);
+        } else if (ts.isVariableStatement(statement)) {
+            for (const declaration of statement.declarationList.declarations) {
+                if (!ts.isIdentifier(declaration.name)) continue;
+                const isFunction = isFunctionValue(declaration.initializer);
+                // Plain module-level variables are noise unless they are part of the API
+                if (!isFunction && !exported) continue;
+
+                const symbol = add(declaration.name.text, isFunction ? 'function' : 'variable', statement, exported);
+                if (isFunctionValue(declaration.initializer)) visitBody(declaration.initializer.body, symbol);
+            }
+        }
+    }
+
+    return symbols;
+}
+
+function scriptKind(ts: typeof TypeScript, path: string): TypeScript.ScriptKind {
+    switch (extname(path).toLowerCase()) {
+        case '.tsx':
+            return ts.ScriptKind.TSX;
+        case '.jsx':
+            return ts.ScriptKind.JSX;
+        case '.js':
+        case '.mjs':
+        case '.cjs':
+            return ts.ScriptKind.JS;
+        default:
+            return ts.ScriptKind.TS;
+    }
+}
+
+// Python
+
+const PYTHON_DEF = /^(\s*)(?:async\s+)?def\s+([A-Za-z_]\w*)/;
+const PYTHON_CLASS = /^(\s*)class\s+([A-Za-z_]\w*)/;
+
+function outlinePython(source: string): OutlineSymbol[] {
+    const lines = source.split('\n');
+    const inString = pythonStringLines(lines);
+    const symbols: OutlineSymbol[] = [];
+    const stack: Array<{ name: string; kind: OutlineSymbolKind; indent: number }> = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        if (inString[i]) continue;
+
+        const classMatch = lines[i].match(PYTHON_CLASS);
+        const defMatch = classMatch ? null : lines[i].match(PYTHON_DEF);
+        const match = classMatch ?? defMatch;
+        if (!match) continue;
+
+        const indent = match[1].length;
+        while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+        const parent = stack[stack.length - 1];
+
+        const kind: OutlineSymbolKind = classMatch ? 'class' : parent?.kind === 'class' ? 'method' : 'function';
+        const symbol: OutlineSymbol = {
+            name: match[2],
+            kind,
+            startLine: i + 1,
+            endLine: findIndentEnd(lines, inString, i, indent),
+            exported: !match[2].startsWith('_'),
+            parent: parent?.name,
+            signature: lines[i].trim(),
+        };
+        symbols.push(symbol);
+        stack.push({ name: qualifiedName(symbol), kind, indent });
+    }
+
+    return symbols;
+}
+
+/**
+ * Mark lines that sit inside triple-quoted strings
+ */
+function pythonStringLines(lines: string[]): boolean[] {
+    const result: boolean[] = [];
+    let open: string | null = null;
+
+    for (const line of lines) {
+        result.push(open !== null);
+        for (const quote of line.match(/"""|'''/g) ?? []) {
+            if (open === null) open = quote;
+            else if (open === quote) open = null;
+        }
+    }
+
+    return result;
+}
+
+function findIndentEnd(lines: string[], inString: boolean[], start: number, indent: number): number {
+    let end = start;
+    for (let i = start + 1; i < lines.length; i++) {
+        const line = lines[i];
+        if (!line.trim()) continue;
+        if (!inString[i] && !line.trim().startsWith('#') && line.length - line.trimStart().length <= indent) break;
+        end = i;
+    }
+    return end + 1;
+}
+
+// Go
+
+const GO_FUNC = /^func\s+(?:\(\s*(?:[A-Za-z_]\w*\s+)?\*?\s*([A-Za-z_]\w*)[^)]*\)\s*)?([A-Za-z_]\w*)/;
+const GO_TYPE = /^type\s+([A-Za-z_]\w*)\s*(?:\[[^\]]*\])?\s+(struct|interface)?/;
+
+function outlineGo(source: string): OutlineSymbol[] {
+    const lines = source.split('\n');
+    const code = maskSource(source, false).split('\n');
+    const depths = lineDepths(code);
+    const symbols: OutlineSymbol[] = [];
+
+    for (let i = 0; i < code.length; i++) {
+        if (depths[i] !== 0) continue;
+        const text = code[i].trim();
+
+        const fn = text.match(GO_FUNC);
+        if (fn) {
+            symbols.push({
+                name: fn[2],
+                kind: fn[1] ? 'method' : 'function',
+                startLine: i + 1,
+                endLine: findStatementEnd(code, depths, i, true),
+                exported: /^[A-Z]/.test(fn[2]),
+                parent: fn[1],
+                signature: lines[i].trim(),
+            });
+            continue;
+        }
+
+        const type = text.match(GO_TYPE);
+        if (type) {
+            symbols.push({
+                name: type[1],
+                kind: type[2] === 'struct' ? 'class' : type[2] === 'interface' ? 'interface' : 'type',
+                startLine: i + 1,
+                endLine: findStatementEnd(code, depths, i, !!type[2]),
+                exported: /^[A-Z]/.test(type[1]),
+                signature: lines[i].trim(),
+            });
+        }
+    }
+
+    return symbols;
+}
+
+// Scanning helpers
+
+/**
+ * Blank out comments and string contents (newlines kept) so braces can be counted.
+ * With `templates`, backticks are JS template literals whose `${}` holes stay code;
+ * otherwise they are raw strings (Go).
+ */
+function maskSource(source: string, templates: boolean): string {
+    const out: string[] = [];
+    // Brace depth at which each open `${` hole started
+    const holes: number[] = [];
+    let depth = 0;
+    let inTemplate = false;
+    let i = 0;
+
+    const blank = (ch: string) => (ch === '\n' ? '\n' : ' ');
+
+    while (i < source.length) {
+        const ch = source[i];
+        const next = source[i + 1];
+
+        if (inTemplate) {
+            if (ch === '\\') {
+                out.push(' ', blank(next ?? ''));
+                i += 2;
+            } else if (ch === '`') {
+                out.push('`');
+                inTemplate = false;
+                i++;
+            } else if (ch === '$' && next === '{') {
+                out.push('  ');
+                holes.push(depth);
+                inTemplate = false;
+                i += 2;
+            } else {
+                out.push(blank(ch));
+                i++;
+            }
+            continue;
+        }
+
+        if (ch === '/' && next === '/') {
+            while (i < source.length && source[i] !== '\n') {
+                out.push(' ');
+                i++;
+            }
+        } else if (ch === '/' && next === '*') {
+            out.push('  ');
+            i += 2;
+            while (i < source.length && !(source[i] === '*' && source[i + 1] === '/')) {
+                out.push(blank(source[i]));
+                i++;
+            }
+            if (i < source.length) {
+                out.push('  ');
+                i += 2;
+            }
+        } else if (ch === '"' || ch === "'") {
+            out.push(ch);
+            i++;
+            while (i < source.length && source[i] !== ch && source[i] !== '\n') {
+                if (source[i] === '\\' && i + 1 < source.length) {
+                    out.push(' ', blank(source[i + 1]));
+                    i += 2;
+                } else {
+                    out.push(' ');
+                    i++;
+                }
+            }
+            if (source[i] === ch) {
+                out.push(ch);
+                i++;
+            }
+        } else if (ch === '`') {
+            out.push('`');
+            i++;
+            if (templates) {
+                inTemplate = true;
+            } else {
+                while (i < source.length && source[i] !== '`') {
+                    out.push(blank(source[i]));
+                    i++;
+                }
+                if (i < source.length) {
+                    out.push('`');
+                    i++;
+                }
+            }
+        } else if (ch === '{') {
+            depth++;
+            out.push(ch);
+            i++;
+        } else if (ch === '}') {
+            if (holes.length > 0 && holes[holes.length - 1] === depth) {
+                holes.pop();
+                out.push(' ');
+                inTemplate = true;
+            } else {
+                depth--;
+                out.push(ch);
+            }
+            i++;
+        } else {
+            out.push(ch);
+            i++;
+        }
+    }
+
+    return out.join('');
+}
+
+/**
+ * Brace depth at the start of each masked line
+ */
+function lineDepths(code: string[]): number[] {
+    const depths: number[] = [];
+    let depth = 0;
+
+    for (const line of code) {
+        depths.push(depth);
+        for (const ch of line) {
+            if (ch === '{') depth++;
+            else if (ch === '}') depth = Math.max(0, depth - 1);
+        }
+    }
+
+    return depths;
+}
+
+/**
+ * Find the last line of a declaration starting at `start`
+ *
+ * Block declarations end when their braces close; others end at a `;` or at
+ * the first line that closes all brackets without an obvious continuation.
+ */
+function findStatementEnd(code: string[], depths: number[], start: number, block: boolean): number {
+    const startDepth = depths[start];
+    let depth = startDepth;
+    let nesting = 0;
+    let opened = false;
+
+    for (let i = start; i < code.length; i++) {
+        const line = code[i];
+        for (let j = 0; j < line.length; j++) {
+            const ch = line[j];
+            // Braces inside parentheses are default values or arguments, not the body
+            if (ch === '{') {
+                depth++;
+                if (nesting <= 0) opened = true;
+            } else if (ch === '}') {
+                depth--;
+                if (opened && nesting <= 0 && depth <= startDepth) {
+                    // `): { a: T } {` - that was an object type, the body is still ahead
+                    if (/^[\s;),]*$/.test(line.slice(j + 1))) return i + 1;
+                    opened = false;
+                }
+            } else if (ch === '(' || ch === '[') {
+                nesting++;
+            } else if (ch === ')' || ch === ']') {
+                nesting--;
+            } else if (ch === ';' && depth === startDepth && nesting <= 0) {
+                return i + 1;
+            }
+        }
+
+        if (!block && !opened && depth === startDepth && nesting <= 0 && !continues(code, i)) {
+            return i + 1;
+        }
+    }
+
+    return code.length;
+}
+
+function continues(code: string[], line: number): boolean {
+    if (/(=>|[=(,|&?:+\-*/.])\s*$/.test(code[line])) return true;
+
+    for (let i = line + 1; i < code.length; i++) {
+        const text = code[i].trim();
+        if (!text) continue;
+        return /^([|&?:.=+\-*/,)\]}]|as\b|extends\b)/.test(text);
+    }
+
+    return false;
+}
+
+/**
+ * Undo the `00012| ` line-number prefixes read tools add, keeping line positions
+ */
+function stripLineNumbers(text: string): string {
+    const lines = text.split('\n');
+    const numbered = lines.map((line) => line.match(/^\s*(\d+)[|\t]\s?(.*)$/));
+    const first = numbered.find((m) => m !== null);
+    if (!first) return text;
+
+    const offset = Math.max(0, parseInt(first[1], 10) - 1);
+    const body = numbered.filter((m): m is RegExpMatchArray => m !== null).map((m) => m[2]);
+    return [...new Array<string>(offset).fill(''), ...body].join('\n');
+}
@@ -3,19 +3,13 @@
  * Custom tool for programmatic context exploration (RLM-style)
  */
 
+import { formatRetentionReport, type MemorySearchOptions, type MemoryType } from '@opencode-harness/shared';
 import type { ContextTracker } from '../context-tracker.js';
 import type { MemoryHooks } from '../memory-hooks.js';
-
-/**
- * Tool schema type (compatible with @opencode-ai/plugin)
- */
-interface ToolSchema {
-    string: () => { type: 'string' };
-    number: () => { type: 'number' };
-    boolean: () => { type: 'boolean' };
-    enum: <T extends string>(values: T[]) => { type: 'string'; enum: T[] };
-    optional: <T>(schema: T) => T & { optional: true };
-}
+import { formatCompactionRecord, type CompactionController } from '../compaction.js';
+import { qualifiedName, readOutline, readSource, type OutlineSymbol, type SourceOutline } from '../outline.js';
+import type { FileSnapshots } from '../file-state.js';
+import type { ToolSchema } from '../types.js';
 
 /**
  * Tool definition type
@@ -27,13 +21,24 @@ interface ToolDefinition<TArgs> {
 }
 
 /**
- * Create the context-nav tool definition
+ * Optional collaborators for context-nav
  */
-export function createContextNavTool(
-    tracker: ContextTracker,
-    memory: MemoryHooks,
-    schema: ToolSchema
-): ToolDefinition<Record<string, unknown>> {
+export interface ContextNavOptions {
+    compaction?: CompactionController;
+    /** Used to resolve relative paths for outline/symbol/seen */
+    projectPath?: string;
+    /** Content as last read, so "seen" can summarize what changed */
+    snapshots?: FileSnapshots;
+}
+
+/** Longest symbol body returned by the "symbol" action */
+const MAX_SYMBOL_LINES = 200;
+
+/**
+ * The tool's description and arguments; needs no session, so the plugin can
+ * register the tool once and route each call to its session
+ */
+export function describeContextNavTool(schema: ToolSchema): Pick<ToolDefinition<Record<string, unknown>>, 'description' | 'args'> {
     return {
         description: `Navigate and explore the context state. Use this to:
 - View what files/functions have been seen
@@ -43,11 +48,14 @@ export function createContextNavTool(
 
 Actions:
 - "status": Show context state summary
-- "seen": Check if a path was already viewed
+- "seen": Check if a path was already viewed and is unchanged since
 - "recent": List recently viewed items
 - "important": List high-importance items
 - "memory": Get relevant memories
-- "search": Search memories for a term`,
+- "search": Search memories by relevance (optional "types" comma list, "days" max age)
+- "compact": Snapshot important context into memory and prune the tracker
+- "outline": List functions/classes/exports of a file with line ranges ("path")
+- "symbol": Show one symbol's source by name or Class.method ("name"), instead of reading the whole file`,
 
         args: {
             action: schema.enum([
@@ -57,28 +65,52 @@ Actions:
                 'important',
                 'memory',
                 'search',
+                'compact',
+                'outline',
+                'symbol',
             ]),
             path: schema.optional(schema.string()),
+            name: schema.optional(schema.string()),
             query: schema.optional(schema.string()),
             limit: schema.optional(schema.number()),
+            types: schema.optional(schema.string()),
+            days: schema.optional(schema.number()),
         },
+    };
+}
+
+/**
+ * Create the context-nav tool definition
+ */
+export function createContextNavTool(
+    tracker: ContextTracker,
+    memory: MemoryHooks,
+    schema: ToolSchema,
+    options: ContextNavOptions = {}
+): ToolDefinition<Record<string, unknown>> {
+    const { compaction, projectPath, snapshots } = options;
+
+    return {
+        ...describeContextNavTool(schema),
 
         async execute(args): Promise<string> {
             const action = args.action as string;
             const path = args.path as string | undefined;
             const query = args.query as string | undefined;
             const limit = (args.limit as number) || 10;
+            const types = args.types
+                ? (args.types as string).split(',').map((t) => t.trim() as MemoryType)
+                : undefined;
+            const days = args.days as number | undefined;
+            const name = (args.name ?? args.query) as string | undefined;
 
             switch (action) {
                 case 'status':
-                    return formatStatus(tracker);
+                    return formatStatus(tracker, memory, compaction);
 
                 case 'seen':
                     if (!path) return '❌ Error: path is required for "seen" action';
-                    const seen = tracker.hasSeen(path);
-                    return seen
-                        ? `✅ Already viewed: ${path}`
-                        : `❌ Not yet viewed: ${path}`;
+                    return checkSeen(tracker, path, projectPath, snapshots);
 
                 case 'recent':
                     return formatRecent(tracker, limit);
@@ -91,7 +123,48 @@ Actions:
 
                 case 'search':
                     if (!query) return '❌ Error: query is required for "search" action';
-                    return formatSearch(memory, query);
+                    return formatSearch(memory, query, {
+                        limit,
+                        types,
+                        since: days ? Date.now() - days * 24 * 60 * 60 * 1000 : undefined,
+                    });
+
+                case 'compact':
+                    if (!compaction) return '❌ Error: compaction is not available';
+                    return `✅ ${formatCompactionRecord(await compaction.compact('manual'))}`;
+
+                case 'outline': {
+                    if (!path) return '❌ Error: path is required for "outline" action';
+                    const outline = tracker.getOutline(path) ?? await readOutline(path, projectPath);
+                    if (!outline) return `❌ Cannot outline ${path} (missing file or unsupported language)`;
+                    tracker.trackOutline(outline);
+                    return formatOutline(outline);
+                }
+
+                case 'symbol': {
+                    if (!name) return '❌ Error: name is required for "symbol" action';
+                    // Outline the named file, and re-outline files edited since they were read
+                    const toOutline = new Set(tracker.getStaleOutlines());
+                    if (path && !tracker.getOutline(path)) toOutline.add(path);
+                    for (const file of toOutline) {
+                        const outline = await readOutline(file, projectPath);
+                        if (outline) tracker.trackOutline(outline);
+                    }
+
+                    const matches = tracker.findSymbols(name).filter((m) => !path || m.path === path);
+                    if (matches.length === 0) {
+                        return `No symbol "${name}" in outlined files. Read or outline the file first.`;
+                    }
+                    if (matches.length > 1) {
+                        return formatSymbolMatches(name, matches.slice(0, limit));
+                    }
+
+                    const [{ path: symbolPath, symbol }] = matches;
+                    const source = await readSource(symbolPath, projectPath);
+                    const body = source ? sliceLines(source, symbol) : undefined;
+                    tracker.trackSymbol(symbolPath, qualifiedName(symbol), body ?? symbol.signature, symbol);
+                    return formatSymbol(symbolPath, symbol, body);
+                }
 
                 default:
                     return `❌ Unknown action: ${action}`;
@@ -102,7 +175,42 @@ Actions:
 
 // Formatting helpers
 
-function formatStatus(tracker: ContextTracker): string {
+async function checkSeen(
+    tracker: ContextTracker,
+    path: string,
+    projectPath?: string,
+    snapshots?: FileSnapshots
+): Promise<string> {
+    const item = tracker.getItem(path);
+    if (!item) return `❌ Not yet viewed: ${path}`;
+
+    // Fingerprint first: an edit on disk matters more than an earlier stale flag
+    let diff: string | undefined;
+    if (item.hash && item.mtime !== undefined && snapshots) {
+        const change = await snapshots.compare(path, { hash: item.hash, mtime: item.mtime }, projectPath);
+        if (change) {
+            if (!item.stale || !change.fingerprint) {
+                tracker.markStale(path, change.fingerprint ? 'changed on disk' : 'deleted');
+            }
+            diff = change.diff;
+        }
+    }
+
+    const stale = tracker.getItem(path)?.stale;
+    if (!stale) {
+        return item.hash
+            ? `✅ Already viewed: ${path} (unchanged since)`
+            : `✅ Already viewed: ${path}`;
+    }
+
+    const ago = Math.round((Date.now() - item.viewedAt) / 60000);
+    const lines = [`⚠️ Seen but modified since: ${path} (${stale.reason}; viewed ${ago}m ago)`];
+    if (diff) lines.push(`Changes: ${diff}`);
+    lines.push('Re-read the file (or the changed lines) before relying on it.');
+    return lines.join('\n');
+}
+
+function formatStatus(tracker: ContextTracker, memory: MemoryHooks, compaction?: CompactionController): string {
     const state = tracker.getState();
     const lines = [
         '## Context Status',
@@ -117,6 +225,17 @@ function formatStatus(tracker: ContextTracker): string {
         lines.push(`**Last Compaction:** ${ago} minutes ago`);
     }
 
+    const lastCompaction = compaction?.getLast();
+    if (lastCompaction) {
+        lines.push(`**${formatCompactionRecord(lastCompaction)}**`);
+    }
+
+    const retention = memory.getRetentionReport();
+    const retentionSummary = retention && formatRetentionReport(retention);
+    if (retentionSummary) {
+        lines.push(`**${retentionSummary}**`);
+    }
+
     lines.push('', '---', '', tracker.formatForPrompt());
 
     return lines.join('\n');
@@ -148,12 +267,62 @@ function formatImportant(tracker: ContextTracker, limit: number): string {
     return lines.join('\n');
 }
 
-function formatSearch(memory: MemoryHooks, query: string): string {
-    const results = memory.searchMemories(query);
+function formatOutline(outline: SourceOutline): string {
+    if (outline.symbols.length === 0) return `No symbols found in ${outline.path}`;
+
+    const lines = [`## Outline: ${outline.path}`, '', `_${outline.language}, ${outline.lines} lines_`, ''];
+    for (const symbol of outline.symbols) {
+        // Nest under the enclosing symbol; Go methods live outside their type, so name them fully
+        const nested = symbol.parent !== undefined && outline.symbols.some((s) =>
+            qualifiedName(s) === symbol.parent && s.startLine <= symbol.startLine && s.endLine >= symbol.endLine
+        );
+        const indent = nested ? '  '.repeat(symbol.parent!.split('.').length) : '';
+        const name = nested ? symbol.name : qualifiedName(symbol);
+        const exported = symbol.exported && !symbol.parent ? ' (exported)' : '';
+        lines.push(`${indent}- ${symbol.kind} **${name}** L${symbol.startLine}-${symbol.endLine}${exported}`);
+    }
+
+    return lines.join('\n');
+}
+
+function formatSymbolMatches(name: string, matches: Array<{ path: string; symbol: OutlineSymbol }>): string {
+    const lines = [`## Symbols matching "${name}"`, '', 'Use "path" or a qualified name to pick one:', ''];
+    for (const { path, symbol } of matches) {
+        lines.push(`- ${symbol.kind} **${qualifiedName(symbol)}** ${path}:${symbol.startLine}-${symbol.endLine}`);
+    }
+    return lines.join('\n');
+}
+
+function formatSymbol(path: string, symbol: OutlineSymbol, body?: string): string {
+    const lines = [
+        `## ${symbol.kind} ${qualifiedName(symbol)}`,
+        '',
+        `**Location:** ${path}:${symbol.startLine}-${symbol.endLine}`,
+    ];
+
+    if (body === undefined) {
+        lines.push(`**Signature:** \`${symbol.signature}\``);
+    } else {
+        lines.push('', '```', body, '```');
+        if (symbol.endLine - symbol.startLine + 1 > MAX_SYMBOL_LINES) {
+            lines.push(`_Truncated to ${MAX_SYMBOL_LINES} lines_`);
+        }
+    }
+
+    return lines.join('\n');
+}
+
+function sliceLines(source: string, symbol: OutlineSymbol): string {
+    const end = Math.min(symbol.endLine, symbol.startLine + MAX_SYMBOL_LINES - 1);
+    return source.split('\n').slice(symbol.startLine - 1, end).join('\n');
+}
+
+function formatSearch(memory: MemoryHooks, query: string, options: MemorySearchOptions): string {
+    const results = memory.searchMemories(query, options);
     if (results.length === 0) return `No memories found for: "${query}"`;
 
-    const lines = [`## Memory Search: "${query}"`, '', `Found ${results.length} results:`, ''];
-    for (const entry of results.slice(0, 10)) {
+    const lines = [`## Memory Search: "${query}"`, '', `Top ${results.length} results:`, ''];
+    for (const entry of results) {
         const date = new Date(entry.timestamp).toLocaleDateString();
         lines.push(`- [${entry.type}] ${entry.content} _(${date})_`);
     }
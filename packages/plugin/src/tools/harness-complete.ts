@@ -0,0 +1,113 @@
+/**
+ * OpenCode Harness Plugin - Task Completion Tool
+ * The agent's structured "I'm done" signal, replacing stdout phrase matching
+ */
+
+import { writeTaskResult, type TaskResult } from '@opencode-harness/shared';
+import type { ContextTracker } from '../context-tracker.js';
+import type { IPCReporter } from '../ipc-reporter.js';
+import type { ToolSchema } from '../types.js';
+
+/**
+ * Tool definition type
+ */
+interface ToolDefinition<TArgs> {
+    description: string;
+    args: TArgs;
+    execute: (args: { [K in keyof TArgs]: unknown }, ctx: unknown) => Promise<string>;
+}
+
+const STATUSES: TaskResult['status'][] = ['completed', 'failed', 'blocked'];
+
+/**
+ * Collaborators for harness-complete
+ */
+export interface HarnessCompleteOptions {
+    reporter: IPCReporter;
+    /** Where the result file is written for the CLI */
+    projectPath?: string;
+    /** Supplies filesChanged when the agent leaves it out */
+    getTracker?: (sessionId?: string) => ContextTracker | undefined;
+}
+
+/**
+ * Create the harness-complete tool definition
+ */
+export function createHarnessCompleteTool(
+    schema: ToolSchema,
+    options: HarnessCompleteOptions
+): ToolDefinition<Record<string, unknown>> {
+    const { reporter, projectPath, getTracker } = options;
+
+    return {
+        description: `Report that you have finished working on the current task. Call this exactly once, as your last action.
+
+- "status": "completed" when the task is done and verified, "failed" when you could not do it, "blocked" when it needs a human (missing access, unclear requirements)
+- "summary": One or two sentences on what was done, or why not
+- "filesChanged": Paths you created, edited or deleted
+- "followUps": Work that remains or should be checked, one item per entry`,
+
+        args: {
+            status: schema.enum(STATUSES as [string, ...string[]]),
+            summary: schema.string(),
+            filesChanged: schema.optional(schema.array(schema.string())),
+            followUps: schema.optional(schema.array(schema.string())),
+        },
+
+        async execute(args, ctx): Promise<string> {
+            const status = args.status as TaskResult['status'];
+            const summary = ((args.summary as string | undefined) ?? '').trim();
+            if (!STATUSES.includes(status)) {
+                return `❌ Error: status must be one of ${STATUSES.join(', ')}`;
+            }
+            if (!summary) return '❌ Error: summary is required';
+
+            const sessionId = (ctx as { sessionID?: string } | undefined)?.sessionID;
+            const result: TaskResult = {
+                taskId: reporter.getTaskId(),
+                sessionId,
+                status,
+                summary,
+                filesChanged: toList(args.filesChanged) ?? editedFiles(getTracker?.(sessionId)),
+                followUps: toList(args.followUps) ?? [],
+                at: Date.now(),
+            };
+
+            const sent = reporter.taskCompleted(result);
+
+            let saved = false;
+            if (projectPath && result.taskId) {
+                try {
+                    await writeTaskResult(projectPath, { ...result, taskId: result.taskId });
+                    saved = true;
+                } catch (error) {
+                    console.error('[Harness] Error saving task result:', error);
+                }
+            }
+
+            const lines = [`✅ Task result recorded: **${status}**`];
+            if (result.filesChanged.length > 0) lines.push(`Files changed: ${result.filesChanged.length}`);
+            if (result.followUps.length > 0) lines.push(`Follow-ups: ${result.followUps.length}`);
+            if (!sent && !saved) lines.push('(No harness runner is attached; the result was not forwarded.)');
+            return lines.join('\n');
+        },
+    };
+}
+
+// Helpers
+
+function toList(value: unknown): string[] | undefined {
+    if (value === undefined || value === null) return undefined;
+    const items = Array.isArray(value) ? value : String(value).split('\n');
+    return items.map((item) => String(item).trim()).filter(Boolean);
+}
+
+/**
+ * Files the tracker saw edited this session
+ */
+function editedFiles(tracker: ContextTracker | undefined): string[] {
+    if (!tracker) return [];
+    return tracker.getState().items
+        .filter((item) => item.type === 'file' && item.editedAt)
+        .map((item) => item.path);
+}
@@ -35,7 +35,9 @@ export interface LogEntry {
 export interface PluginHooks {
     event?: (ctx: { event: PluginEvent }) => Promise<void>;
     'tool.execute.before'?: (input: ToolInput, output: ToolOutput) => Promise<void>;
-    'tool.execute.after'?: (input: ToolInput, output: ToolOutput, result: string) => Promise<void>;
+    'tool.execute.after'?: (input: ToolInput, output: ToolOutput, result?: string) => Promise<void>;
+    'chat.message'?: (input: ChatMessageInput, output: ChatMessageOutput) => Promise<void>;
+    'experimental.chat.system.transform'?: (input: SystemTransformInput, output: SystemTransformOutput) => Promise<void>;
     tool?: Record<string, ToolDefinition>;
 }
 
@@ -46,11 +48,53 @@ export interface PluginEvent {
 
 export interface ToolInput {
     tool: string;
-    sessionId: string;
+    sessionID: string;
+    callID?: string;
+    args?: Record<string, unknown>;
 }
 
 export interface ToolOutput {
-    args: Record<string, unknown>;
+    args?: Record<string, unknown>;
+    title?: string;
+    output?: string;
+    metadata?: Record<string, unknown>;
+}
+
+export interface ChatMessageInput {
+    sessionID: string;
+    messageID?: string;
+}
+
+export interface ChatMessageOutput {
+    message?: { id?: string };
+    parts: MessagePart[];
+}
+
+export interface MessagePart {
+    type: string;
+    text?: string;
+    [key: string]: unknown;
+}
+
+export interface SystemTransformInput {
+    sessionID?: string;
+}
+
+export interface SystemTransformOutput {
+    system: string[];
+}
+
+/**
+ * The argument schema builder tools are created with
+ * (compatible with `tool.schema` from @opencode-ai/plugin)
+ */
+export interface ToolSchema {
+    string(): unknown;
+    number(): unknown;
+    boolean(): unknown;
+    enum(values: [string, ...string[]]): unknown;
+    array(item: unknown): unknown;
+    optional(schema: unknown): unknown;
 }
 
 export interface ToolDefinition {
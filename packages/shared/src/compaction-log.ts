@@ -0,0 +1,46 @@
+/**
+ * OpenCode Harness - Compaction Log
+ * Append-only record of context compactions, shared by the plugin and CLI
+ */
+
+import { readFile, appendFile, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, dirname } from 'path';
+import type { CompactionRecord } from './types.js';
+import { getHarnessDir } from './config.js';
+
+/**
+ * Get the compaction log path for a project
+ */
+export function getCompactionLogPath(projectPath: string): string {
+    return join(getHarnessDir(projectPath), 'compactions.jsonl');
+}
+
+/**
+ * Append one compaction to the log
+ */
+export async function appendCompactionRecord(projectPath: string, record: CompactionRecord): Promise<void> {
+    const logPath = getCompactionLogPath(projectPath);
+    await mkdir(dirname(logPath), { recursive: true });
+    await appendFile(logPath, JSON.stringify(record) + '\n');
+}
+
+/**
+ * Read the most recent compactions, newest first
+ */
+export async function readCompactionLog(projectPath: string, limit: number = 20): Promise<CompactionRecord[]> {
+    const logPath = getCompactionLogPath(projectPath);
+    if (!existsSync(logPath)) return [];
+
+    const records: CompactionRecord[] = [];
+    for (const line of (await readFile(logPath, 'utf-8')).split('\n')) {
+        if (!line.trim()) continue;
+        try {
+            records.push(JSON.parse(line) as CompactionRecord);
+        } catch {
+            // Skip a line torn by a concurrent append
+        }
+    }
+
+    return records.reverse().slice(0, limit);
+}
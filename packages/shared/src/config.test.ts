@@ -0,0 +1,55 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { tmpdir } from 'os';
+import { getConfigPath, loadConfig } from './config.js';
+import { DEFAULT_CONFIG } from './types.js';
+
+let projectPath: string | undefined;
+
+afterEach(async () => {
+    vi.restoreAllMocks();
+    if (projectPath) await rm(projectPath, { recursive: true, force: true });
+});
+
+async function writeConfig(config: unknown): Promise<string> {
+    projectPath = await mkdtemp(join(tmpdir(), 'harness-config-'));
+    const path = getConfigPath(projectPath);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, JSON.stringify(config));
+    return projectPath;
+}
+
+describe('loadConfig', () => {
+    it('fills missing settings from the defaults', async () => {
+        const config = await loadConfig(await writeConfig({ memory: { backend: 'jsonl' } }));
+
+        expect(config.memory).toEqual({ ...DEFAULT_CONFIG.memory, backend: 'jsonl' });
+        expect(config.context).toEqual(DEFAULT_CONFIG.context);
+    });
+
+    it('reports an unknown memory backend and falls back to json', async () => {
+        const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        const config = await loadConfig(await writeConfig({ memory: { backend: 'postgres' } }));
+
+        expect(config.memory.backend).toBe('json');
+        expect(error).toHaveBeenCalledWith(expect.stringContaining('Unknown memory.backend "postgres"'));
+        expect(DEFAULT_CONFIG.memory.backend).toBe('json');
+    });
+
+    it('accepts the bpe tokenizer', async () => {
+        const config = await loadConfig(await writeConfig({ context: { tokenizer: 'bpe' } }));
+
+        expect(config.context.tokenizer).toBe('bpe');
+    });
+
+    it('reports an unknown tokenizer and falls back to chars', async () => {
+        const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        const config = await loadConfig(await writeConfig({ context: { tokenizer: 'tiktoken' } }));
+
+        expect(config.context.tokenizer).toBe('chars');
+        expect(error).toHaveBeenCalledWith(expect.stringContaining('Unknown context.tokenizer "tiktoken"'));
+    });
+});
@@ -0,0 +1,59 @@
+/**
+ * OpenCode Harness - Config Loading
+ * Reads .opencode/.harness/config.json with defaults applied
+ */
+
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { DEFAULT_CONFIG, MEMORY_BACKENDS, TOKENIZERS, mergeConfig, type DeepPartial, type HarnessConfig } from './types.js';
+
+/**
+ * Get the harness directory for a project
+ */
+export function getHarnessDir(projectPath: string): string {
+    return join(projectPath, '.opencode', '.harness');
+}
+
+/**
+ * Get the config file path for a project
+ */
+export function getConfigPath(projectPath: string): string {
+    return join(getHarnessDir(projectPath), 'config.json');
+}
+
+/**
+ * Load project config, filling anything missing from DEFAULT_CONFIG
+ * Unknown enum values are reported and replaced by their defaults.
+ */
+export async function loadConfig(projectPath: string): Promise<HarnessConfig> {
+    const configPath = getConfigPath(projectPath);
+    if (!existsSync(configPath)) return DEFAULT_CONFIG;
+
+    let config: HarnessConfig;
+    try {
+        const content = await readFile(configPath, 'utf-8');
+        config = mergeConfig(DEFAULT_CONFIG, JSON.parse(content) as DeepPartial<HarnessConfig>);
+    } catch (error) {
+        console.error('[Harness] Error loading config:', error);
+        return DEFAULT_CONFIG;
+    }
+
+    if (!MEMORY_BACKENDS.includes(config.memory.backend)) {
+        console.error(
+            `[Harness] Unknown memory.backend "${String(config.memory.backend)}" in config.json ` +
+            `(expected ${MEMORY_BACKENDS.join(', ')}); using ${DEFAULT_CONFIG.memory.backend}`
+        );
+        config.memory.backend = DEFAULT_CONFIG.memory.backend;
+    }
+
+    if (!TOKENIZERS.includes(config.context.tokenizer)) {
+        console.error(
+            `[Harness] Unknown context.tokenizer "${String(config.context.tokenizer)}" in config.json ` +
+            `(expected ${TOKENIZERS.join(', ')}); using ${DEFAULT_CONFIG.context.tokenizer}`
+        );
+        config.context.tokenizer = DEFAULT_CONFIG.context.tokenizer;
+    }
+
+    return config;
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { getContextPath, listContextSnapshots, pruneContextSnapshots, writeContextSnapshot } from './context-file.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const state = { items: [], totalTokensEstimate: 0, needsCompaction: false };
+
+let projectPath: string | undefined;
+
+afterEach(async () => {
+    vi.useRealTimers();
+    if (projectPath) await rm(projectPath, { recursive: true, force: true });
+});
+
+describe('pruneContextSnapshots', () => {
+    it('deletes snapshots saved before the cutoff and keeps recent ones', async () => {
+        projectPath = await mkdtemp(join(tmpdir(), 'harness-context-'));
+        vi.useFakeTimers({ now: Date.now() - 40 * DAY, toFake: ['Date'] });
+        await writeContextSnapshot(projectPath, 'old', state);
+        vi.useRealTimers();
+        await writeContextSnapshot(projectPath, 'recent', state);
+
+        expect(await pruneContextSnapshots(projectPath, 30)).toEqual(['old']);
+        expect((await listContextSnapshots(projectPath)).map((s) => s.sessionId)).toEqual(['recent']);
+    });
+
+    it('keeps everything when pruning is off', async () => {
+        projectPath = await mkdtemp(join(tmpdir(), 'harness-context-'));
+        await writeContextSnapshot(projectPath, 'session', state);
+        await writeFile(getContextPath(projectPath, 'broken'), '{');
+
+        expect(await pruneContextSnapshots(projectPath, 0)).toEqual([]);
+        expect(await pruneContextSnapshots(projectPath, 30)).toEqual([]);
+    });
+});
@@ -0,0 +1,159 @@
+/**
+ * OpenCode Harness - Context Persistence
+ * Saved tracker state per session in .opencode/.harness/context/
+ */
+
+import { readFile, writeFile, readdir, mkdir, rename, rm, stat } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, dirname } from 'path';
+import { randomUUID } from 'crypto';
+import type { ContextState } from './types.js';
+import { getHarnessDir } from './config.js';
+
+/**
+ * Current on-disk context snapshot version
+ */
+export const CONTEXT_SNAPSHOT_VERSION = 1;
+
+/**
+ * Tracker state saved for one session
+ */
+export interface ContextSnapshot {
+    version: number;
+    sessionId: string;
+    savedAt: number;
+    state: ContextState;
+}
+
+/**
+ * Overview of a saved snapshot, for listings
+ */
+export interface ContextSnapshotSummary {
+    sessionId: string;
+    savedAt: number;
+    items: number;
+    tokens: number;
+    staleItems: number;
+}
+
+/**
+ * Get the directory holding saved context for a project
+ */
+export function getContextDir(projectPath: string): string {
+    return join(getHarnessDir(projectPath), 'context');
+}
+
+/**
+ * Get the snapshot path for a session (ids are sanitized for the filesystem)
+ */
+export function getContextPath(projectPath: string, sessionId: string): string {
+    return join(getContextDir(projectPath), `${sessionId.replace(/[^\w.-]/g, '_')}.json`);
+}
+
+/**
+ * Save a session's tracker state (temp file + rename)
+ */
+export async function writeContextSnapshot(
+    projectPath: string,
+    sessionId: string,
+    state: ContextState
+): Promise<void> {
+    const snapshot: ContextSnapshot = {
+        version: CONTEXT_SNAPSHOT_VERSION,
+        sessionId,
+        savedAt: Date.now(),
+        state,
+    };
+
+    const contextPath = getContextPath(projectPath, sessionId);
+    const tempPath = `${contextPath}.${process.pid}.${randomUUID()}.tmp`;
+    await mkdir(dirname(contextPath), { recursive: true });
+
+    try {
+        await writeFile(tempPath, JSON.stringify(snapshot, null, 2));
+        await rename(tempPath, contextPath);
+    } catch (error) {
+        await rm(tempPath, { force: true });
+        throw error;
+    }
+}
+
+/**
+ * Load a session's saved tracker state, or null if none (or unreadable)
+ */
+export async function readContextSnapshot(
+    projectPath: string,
+    sessionId: string
+): Promise<ContextSnapshot | null> {
+    const contextPath = getContextPath(projectPath, sessionId);
+    if (!existsSync(contextPath)) return null;
+
+    const snapshot = JSON.parse(await readFile(contextPath, 'utf-8')) as ContextSnapshot;
+    if (snapshot.version > CONTEXT_SNAPSHOT_VERSION || !Array.isArray(snapshot.state?.items)) {
+        return null;
+    }
+    return snapshot;
+}
+
+/**
+ * List saved sessions, most recently saved first
+ */
+export async function listContextSnapshots(projectPath: string): Promise<ContextSnapshotSummary[]> {
+    const contextDir = getContextDir(projectPath);
+    if (!existsSync(contextDir)) return [];
+
+    const summaries: ContextSnapshotSummary[] = [];
+    for (const file of await readdir(contextDir)) {
+        if (!file.endsWith('.json')) continue;
+
+        try {
+            const snapshot = JSON.parse(await readFile(join(contextDir, file), 'utf-8')) as ContextSnapshot;
+            summaries.push({
+                sessionId: snapshot.sessionId,
+                savedAt: snapshot.savedAt,
+                items: snapshot.state.items.length,
+                tokens: snapshot.state.totalTokensEstimate,
+                staleItems: snapshot.state.items.filter((item) => item.stale).length,
+            });
+        } catch {
+            // Skip files that are not snapshots
+        }
+    }
+
+    return summaries.sort((a, b) => b.savedAt - a.savedAt);
+}
+
+/**
+ * Delete snapshots saved more than `maxAgeDays` ago (0 or less keeps all).
+ * Returns the session ids removed.
+ */
+export async function pruneContextSnapshots(projectPath: string, maxAgeDays: number): Promise<string[]> {
+    const contextDir = getContextDir(projectPath);
+    if (maxAgeDays <= 0 || !existsSync(contextDir)) return [];
+
+    const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+    const removed: string[] = [];
+
+    for (const file of await readdir(contextDir)) {
+        if (!file.endsWith('.json')) continue;
+        const path = join(contextDir, file);
+
+        let sessionId = file.slice(0, -'.json'.length);
+        let savedAt: number;
+        try {
+            const snapshot = JSON.parse(await readFile(path, 'utf-8')) as Partial<ContextSnapshot>;
+            sessionId = snapshot.sessionId ?? sessionId;
+            savedAt = typeof snapshot.savedAt === 'number' ? snapshot.savedAt : (await stat(path)).mtimeMs;
+        } catch {
+            // Unreadable snapshots age by their file time
+            savedAt = (await stat(path)).mtimeMs;
+        }
+
+        if (savedAt < cutoff) {
+            await rm(path, { force: true });
+            removed.push(sessionId);
+        }
+    }
+
+    return removed;
+}
@@ -5,3 +5,18 @@
 
 export * from './types.js';
 export * from './memory-format.js';
+export * from './memory-schema.js';
+export * from './config.js';
+export * from './memory-index.js';
+export * from './memory-compression.js';
+export * from './memory-retention.js';
+export * from './memory-file.js';
+export * from './memory-backend.js';
+export * from './memory-journal.js';
+export * from './memory-sqlite.js';
+export * from './tokenizer.js';
+export * from './compaction-log.js';
+export * from './context-file.js';
+export * from './ipc.js';
+export * from './ipc-mock.js';
+export * from './task-result.js';
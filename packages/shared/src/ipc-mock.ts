@@ -0,0 +1,103 @@
+/**
+ * OpenCode Harness - IPC Mock Peer
+ * Stands in for the other end of the channel in tests: records what it
+ * receives and sends scripted messages
+ */
+
+import { createIPCClient, createIPCServer, type IPCClient, type IPCServer } from './ipc.js';
+import type { IPCMessage, IPCRole } from './types.js';
+
+/**
+ * Create a mock peer. As 'cli' it listens at `path` (to test the plugin);
+ * as 'plugin' it connects to `path` (to test the CLI).
+ */
+export function createMockIPCPeer(path: string, role: IPCRole) {
+    const received: IPCMessage[] = [];
+    const waiters: Array<{ type: IPCMessage['type']; resolve: (message: IPCMessage) => void }> = [];
+
+    let server: IPCServer | null = null;
+    let client: IPCClient | null = null;
+
+    function record(message: IPCMessage): void {
+        received.push(message);
+        for (const waiter of waiters.filter((w) => w.type === message.type)) {
+            waiters.splice(waiters.indexOf(waiter), 1);
+            waiter.resolve(message);
+        }
+    }
+
+    /**
+     * Listen or connect; resolves false if a 'plugin' peer could not connect
+     */
+    async function start(): Promise<boolean> {
+        if (role === 'cli') {
+            server = createIPCServer(path, { onMessage: record });
+            await server.listen();
+            return true;
+        }
+
+        client = createIPCClient(path, { role, onMessage: record });
+        return client.connect();
+    }
+
+    /**
+     * Send to the other end (all connected plugins when acting as the CLI)
+     */
+    function send(message: IPCMessage): void {
+        if (server) server.broadcast(message);
+        else client?.send(message);
+    }
+
+    /**
+     * Resolve with the first message of a type, including ones already received
+     */
+    function waitFor<T extends IPCMessage['type']>(
+        type: T,
+        timeoutMs: number = 2000
+    ): Promise<Extract<IPCMessage, { type: T }>> {
+        const seen = received.find((message) => message.type === type);
+        if (seen) return Promise.resolve(seen as Extract<IPCMessage, { type: T }>);
+
+        return new Promise((resolve, reject) => {
+            const waiter = {
+                type,
+                resolve: (message: IPCMessage) => {
+                    clearTimeout(timer);
+                    resolve(message as Extract<IPCMessage, { type: T }>);
+                },
+            };
+            const timer = setTimeout(() => {
+                waiters.splice(waiters.indexOf(waiter), 1);
+                reject(new Error(`Timed out waiting for ${type}`));
+            }, timeoutMs);
+            waiters.push(waiter);
+        });
+    }
+
+    /**
+     * Wait until a plugin has connected (only meaningful as 'cli')
+     */
+    async function waitForPeer(timeoutMs: number = 2000): Promise<void> {
+        const deadline = Date.now() + timeoutMs;
+        while (server && server.getPeers().length === 0) {
+            if (Date.now() > deadline) throw new Error('Timed out waiting for a peer');
+            await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+    }
+
+    async function close(): Promise<void> {
+        await server?.close();
+        await client?.close();
+    }
+
+    return {
+        received,
+        start,
+        send,
+        waitFor,
+        waitForPeer,
+        close,
+    };
+}
+
+export type MockIPCPeer = ReturnType<typeof createMockIPCPeer>;
@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createConnection, createServer, type Socket } from 'net';
+import { mkdir, mkdtemp, rm } from 'fs/promises';
+import { dirname, join } from 'path';
+import { tmpdir } from 'os';
+import type { IPCFrame, IPCMessage } from './types.js';
+import {
+    createFrameDecoder,
+    createIPCClient,
+    createIPCServer,
+    encodeFrame,
+    getIPCPath,
+    IPC_PROTOCOL_VERSION,
+    type IPCServer,
+} from './ipc.js';
+import { createMockIPCPeer, type MockIPCPeer } from './ipc-mock.js';
+
+const compact = (reason: string): IPCMessage => ({ type: 'context.compact', payload: { reason } });
+
+let projectPath: string;
+let path: string;
+const cleanup: Array<() => Promise<void>> = [];
+
+beforeEach(async () => {
+    projectPath = await mkdtemp(join(tmpdir(), 'harness-ipc-'));
+    path = getIPCPath(projectPath);
+});
+
+afterEach(async () => {
+    for (const close of cleanup.splice(0).reverse()) await close();
+    await rm(projectPath, { recursive: true, force: true });
+});
+
+async function startMock(role: 'cli' | 'plugin'): Promise<MockIPCPeer> {
+    const peer = createMockIPCPeer(path, role);
+    cleanup.push(peer.close);
+    await peer.start();
+    return peer;
+}
+
+async function startServer(errors: Error[]): Promise<IPCServer> {
+    const server = createIPCServer(path, { onMessage: () => {}, onError: (error) => errors.push(error) });
+    cleanup.push(server.close);
+    await server.listen();
+    return server;
+}
+
+/**
+ * Connect a raw socket, send `lines` and collect the frames sent back until the server hangs up
+ */
+function exchange(lines: string[]): Promise<IPCFrame[]> {
+    return new Promise((resolve, reject) => {
+        const frames: IPCFrame[] = [];
+        const decoder = createFrameDecoder((frame) => frames.push(frame));
+        const socket = createConnection(path);
+        const timer = setTimeout(() => {
+            socket.destroy();
+            reject(new Error('Server did not close the connection'));
+        }, 2000);
+
+        socket.on('connect', () => socket.write(lines.join('')));
+        socket.on('data', decoder.push);
+        socket.on('error', reject);
+        socket.on('close', () => {
+            clearTimeout(timer);
+            resolve(frames);
+        });
+    });
+}
+
+describe('createFrameDecoder', () => {
+    it('reassembles frames split across chunks and splits batched ones', () => {
+        const frames: IPCFrame[] = [];
+        const decoder = createFrameDecoder((frame) => frames.push(frame));
+        const line = encodeFrame(compact('one'));
+
+        decoder.push(line.substring(0, 10));
+        expect(frames).toHaveLength(0);
+        decoder.push(line.substring(10) + encodeFrame(compact('two')) + '\n');
+
+        expect(frames).toEqual([compact('one'), compact('two')]);
+    });
+
+    it('reports invalid lines and keeps going', () => {
+        const frames: IPCFrame[] = [];
+        const errors: Error[] = [];
+        const decoder = createFrameDecoder((frame) => frames.push(frame), (error) => errors.push(error));
+
+        decoder.push('not json\n{"payload":1}\n' + encodeFrame(compact('ok')));
+
+        expect(errors.map((error) => error.message)).toEqual([
+            'Invalid IPC frame: not json',
+            'IPC frame without a type: {"payload":1}',
+        ]);
+        expect(frames).toEqual([compact('ok')]);
+    });
+});
+
+describe('IPC handshake', () => {
+    it('connects a plugin and carries messages both ways', async () => {
+        const cli = await startMock('cli');
+        const plugin = await startMock('plugin');
+
+        await cli.waitForPeer();
+        plugin.send(compact('from plugin'));
+        cli.send(compact('from cli'));
+
+        expect((await cli.waitFor('context.compact')).payload.reason).toBe('from plugin');
+        expect((await plugin.waitFor('context.compact')).payload.reason).toBe('from cli');
+    });
+
+    it('refuses a peer with another protocol version', async () => {
+        const errors: Error[] = [];
+        const server = await startServer(errors);
+
+        const frames = await exchange([
+            encodeFrame({ type: 'hello', payload: { version: IPC_PROTOCOL_VERSION + 1, role: 'plugin', pid: 1 } }),
+        ]);
+
+        expect(frames).toEqual([{
+            type: 'error',
+            payload: { message: `protocol version ${IPC_PROTOCOL_VERSION + 1} not supported (expected ${IPC_PROTOCOL_VERSION})` },
+        }]);
+        expect(errors).toHaveLength(1);
+        expect(server.getPeers()).toHaveLength(0);
+    });
+
+    it.each([
+        ['no payload', '{"type":"hello"}\n', 'hello without a payload'],
+        ['a null payload', '{"type":"hello","payload":null}\n', 'hello without a payload'],
+        ['an unknown role', `{"type":"hello","payload":{"version":${IPC_PROTOCOL_VERSION},"role":"x","pid":1}}\n`, 'unknown role x'],
+        ['another frame first', encodeFrame(compact('early')), 'expected hello, got context.compact'],
+    ])('refuses a hello with %s without crashing', async (_, line, message) => {
+        const errors: Error[] = [];
+        await startServer(errors);
+
+        const frames = await exchange([line]);
+
+        expect(frames).toEqual([{ type: 'error', payload: { message } }]);
+        expect(errors.map((error) => error.message)).toEqual([`IPC handshake refused: ${message}`]);
+    });
+
+    it('gives up on a server whose hello is malformed', async () => {
+        await mkdir(dirname(path), { recursive: true });
+        const sockets: Socket[] = [];
+        const server = createServer((socket) => {
+            sockets.push(socket);
+            socket.write('{"type":"hello"}\n');
+        });
+        await new Promise<void>((resolve) => server.listen(path, resolve));
+        cleanup.push(() => new Promise((resolve) => {
+            for (const socket of sockets) socket.destroy();
+            server.close(() => resolve());
+        }));
+
+        const client = createIPCClient(path, { timeoutMs: 1000 });
+        cleanup.push(client.close);
+
+        await expect(client.connect()).resolves.toBe(false);
+        expect(client.isConnected()).toBe(false);
+    });
+
+    it('resolves false when nobody is listening', async () => {
+        const client = createIPCClient(path, { timeoutMs: 500 });
+        cleanup.push(client.close);
+
+        await expect(client.connect()).resolves.toBe(false);
+    });
+});
+
+describe('IPC client queue', () => {
+    it('delivers messages sent before the handshake, in order', async () => {
+        const cli = await startMock('cli');
+        const client = createIPCClient(path);
+        cleanup.push(client.close);
+
+        client.send(compact('first'));
+        client.send(compact('second'));
+        expect(await client.connect()).toBe(true);
+        client.send(compact('third'));
+
+        await cli.waitForPeer();
+        const deadline = Date.now() + 2000;
+        while (cli.received.length < 3 && Date.now() < deadline) {
+            await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+        expect(cli.received).toEqual([compact('first'), compact('second'), compact('third')]);
+    });
+
+    it('drops queued messages when the connection fails', async () => {
+        const client = createIPCClient(path, { timeoutMs: 500 });
+        cleanup.push(client.close);
+
+        client.send(compact('lost'));
+        expect(await client.connect()).toBe(false);
+
+        // Sending after a failed connect is a no-op rather than an error
+        expect(() => client.send(compact('ignored'))).not.toThrow();
+    });
+});
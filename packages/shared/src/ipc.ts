@@ -0,0 +1,397 @@
+/**
+ * OpenCode Harness - IPC Channel
+ * Newline-delimited JSON over a Unix domain socket (named pipe on Windows)
+ * so the plugin can report to the CLI that launched it
+ */
+
+import { createServer, createConnection, type Server, type Socket } from 'net';
+import { mkdir, rm } from 'fs/promises';
+import { createHash } from 'crypto';
+import { tmpdir } from 'os';
+import { join, dirname, resolve } from 'path';
+import type { IPCFrame, IPCMessage, IPCRole } from './types.js';
+import { getHarnessDir } from './config.js';
+
+/**
+ * Protocol version exchanged in the handshake; peers with another version are refused
+ */
+export const IPC_PROTOCOL_VERSION = 1;
+
+/**
+ * Environment variable the CLI uses to tell the plugin where to connect
+ */
+export const IPC_PATH_ENV = 'OC_HARNESS_IPC';
+
+/** Unix socket paths are limited to ~104 bytes on macOS, 108 on Linux */
+const MAX_SOCKET_PATH = 100;
+
+/** Lines longer than this are dropped rather than buffered forever */
+const MAX_FRAME_BYTES = 8 * 1024 * 1024;
+
+/** Messages kept while the client is still connecting */
+const MAX_QUEUED = 200;
+
+/**
+ * Get the socket path for a project (`.opencode/.harness/ipc/<name>.sock`)
+ * Falls back to the temp dir when that path is too long for a socket.
+ */
+export function getIPCPath(projectPath: string, name: string = 'harness'): string {
+    const hash = createHash('sha1').update(resolve(projectPath)).digest('hex').substring(0, 12);
+    if (process.platform === 'win32') {
+        return `\\\\.\\pipe\\oc-harness-${hash}-${name}`;
+    }
+
+    const path = join(getHarnessDir(projectPath), 'ipc', `${name}.sock`);
+    return path.length <= MAX_SOCKET_PATH ? path : join(tmpdir(), `oc-harness-${hash}-${name}.sock`);
+}
+
+/**
+ * Serialize a frame as one line
+ */
+export function encodeFrame(frame: IPCFrame): string {
+    return JSON.stringify(frame) + '\n';
+}
+
+/**
+ * Line decoder - buffers partial chunks and emits one frame per complete line
+ */
+export function createFrameDecoder(
+    onFrame: (frame: IPCFrame) => void,
+    onError: (error: Error) => void = () => {}
+) {
+    let buffer = '';
+
+    function push(chunk: string | Buffer): void {
+        buffer += chunk.toString();
+
+        let newline = buffer.indexOf('\n');
+        while (newline !== -1) {
+            const line = buffer.substring(0, newline).trim();
+            buffer = buffer.substring(newline + 1);
+            if (line) decode(line);
+            newline = buffer.indexOf('\n');
+        }
+
+        if (buffer.length > MAX_FRAME_BYTES) {
+            buffer = '';
+            onError(new Error(`IPC frame exceeds ${MAX_FRAME_BYTES} bytes`));
+        }
+    }
+
+    function decode(line: string): void {
+        let frame: IPCFrame;
+        try {
+            frame = JSON.parse(line) as IPCFrame;
+        } catch {
+            onError(new Error(`Invalid IPC frame: ${line.substring(0, 80)}`));
+            return;
+        }
+
+        if (!frame || typeof frame.type !== 'string') {
+            onError(new Error(`IPC frame without a type: ${line.substring(0, 80)}`));
+            return;
+        }
+        onFrame(frame);
+    }
+
+    return {
+        push,
+    };
+}
+
+/**
+ * A connected, handshaken peer as seen by the server
+ */
+export interface IPCPeer {
+    id: number;
+    role: IPCRole;
+    pid: number;
+    send(message: IPCMessage): void;
+    close(): void;
+}
+
+export interface IPCServerOptions {
+    onMessage: (message: IPCMessage, peer: IPCPeer) => void;
+    /** Called once the peer's handshake succeeded */
+    onConnect?: (peer: IPCPeer) => void;
+    onDisconnect?: (peer: IPCPeer) => void;
+    /** Protocol problems (bad frames, refused handshakes) */
+    onError?: (error: Error) => void;
+}
+
+/**
+ * IPC Server - the CLI side. Accepts any number of plugin connections.
+ */
+export function createIPCServer(path: string, options: IPCServerOptions) {
+    const peers = new Map<number, IPCPeer>();
+    const sockets = new Set<Socket>();
+    let server: Server | null = null;
+    let nextId = 1;
+
+    const reportError = options.onError ?? (() => {});
+
+    /**
+     * Start listening, replacing a socket file left behind by a crashed run
+     */
+    async function listen(): Promise<void> {
+        if (server) return;
+
+        if (process.platform !== 'win32') {
+            await mkdir(dirname(path), { recursive: true });
+            if (!(await isListening(path))) await rm(path, { force: true });
+        }
+
+        const created = createServer(accept);
+        await new Promise<void>((resolvePromise, reject) => {
+            created.once('error', reject);
+            created.listen(path, () => {
+                created.off('error', reject);
+                resolvePromise();
+            });
+        });
+        created.on('error', reportError);
+        server = created;
+    }
+
+    function accept(socket: Socket): void {
+        sockets.add(socket);
+        let peer: IPCPeer | null = null;
+
+        const decoder = createFrameDecoder((frame) => {
+            if (!peer) {
+                peer = handshake(socket, frame);
+                if (peer) {
+                    peers.set(peer.id, peer);
+                    options.onConnect?.(peer);
+                }
+                return;
+            }
+
+            if (frame.type === 'hello' || frame.type === 'error') return;
+            options.onMessage(frame, peer);
+        }, reportError);
+
+        socket.on('data', decoder.push);
+        socket.on('error', () => socket.destroy());
+        socket.on('close', () => {
+            sockets.delete(socket);
+            if (peer) {
+                peers.delete(peer.id);
+                options.onDisconnect?.(peer);
+            }
+        });
+    }
+
+    function handshake(socket: Socket, frame: IPCFrame): IPCPeer | null {
+        const refuse = (message: string): null => {
+            socket.end(encodeFrame({ type: 'error', payload: { message } }));
+            reportError(new Error(`IPC handshake refused: ${message}`));
+            return null;
+        };
+
+        const hello = readHello(frame);
+        if (typeof hello === 'string') return refuse(hello);
+
+        write(socket, { type: 'hello', payload: { version: IPC_PROTOCOL_VERSION, role: 'cli', pid: process.pid } });
+
+        return {
+            id: nextId++,
+            role: hello.role,
+            pid: hello.pid,
+            send: (message) => write(socket, message),
+            close: () => socket.end(),
+        };
+    }
+
+    /**
+     * Send a message to every connected peer
+     */
+    function broadcast(message: IPCMessage): void {
+        for (const peer of peers.values()) peer.send(message);
+    }
+
+    function getPeers(): IPCPeer[] {
+        return [...peers.values()];
+    }
+
+    /**
+     * Stop listening, disconnect peers and remove the socket file
+     */
+    async function close(): Promise<void> {
+        const current = server;
+        server = null;
+        if (!current) return;
+
+        for (const socket of sockets) socket.destroy();
+        await new Promise<void>((resolvePromise) => current.close(() => resolvePromise()));
+        if (process.platform !== 'win32') await rm(path, { force: true });
+    }
+
+    return {
+        path,
+        listen,
+        broadcast,
+        getPeers,
+        close,
+    };
+}
+
+export type IPCServer = ReturnType<typeof createIPCServer>;
+
+export interface IPCClientOptions {
+    role?: IPCRole;
+    onMessage?: (message: IPCMessage) => void;
+    /** How long to wait for the connection and handshake */
+    timeoutMs?: number;
+}
+
+/**
+ * IPC Client - the plugin side. Never throws: if nobody is listening,
+ * messages are dropped so the plugin works the same without a CLI.
+ */
+export function createIPCClient(path: string, options: IPCClientOptions = {}) {
+    const role = options.role ?? 'plugin';
+    const timeoutMs = options.timeoutMs ?? 2000;
+
+    let socket: Socket | null = null;
+    let status: 'idle' | 'connecting' | 'ready' | 'closed' = 'idle';
+    let connecting: Promise<boolean> | null = null;
+    const queue: IPCMessage[] = [];
+
+    /**
+     * Connect and handshake; resolves false if the server is missing or refuses
+     */
+    function connect(): Promise<boolean> {
+        if (status === 'ready') return Promise.resolve(true);
+        if (status === 'closed') return Promise.resolve(false);
+        connecting ??= open();
+        return connecting;
+    }
+
+    function open(): Promise<boolean> {
+        status = 'connecting';
+
+        return new Promise<boolean>((resolvePromise) => {
+            const conn = createConnection(path);
+            socket = conn;
+
+            const settle = (ok: boolean) => {
+                clearTimeout(timer);
+                if (!ok) {
+                    status = 'closed';
+                    queue.length = 0;
+                    conn.destroy();
+                }
+                resolvePromise(ok);
+            };
+            const timer = setTimeout(() => settle(false), timeoutMs);
+
+            const decoder = createFrameDecoder((frame) => {
+                if (status === 'connecting') {
+                    if (typeof readHello(frame) === 'string') {
+                        settle(false);
+                        return;
+                    }
+                    status = 'ready';
+                    for (const message of queue.splice(0)) write(conn, message);
+                    settle(true);
+                    return;
+                }
+
+                if (frame.type === 'hello' || frame.type === 'error') return;
+                options.onMessage?.(frame);
+            });
+
+            conn.on('connect', () => {
+                write(conn, { type: 'hello', payload: { version: IPC_PROTOCOL_VERSION, role, pid: process.pid } });
+            });
+            conn.on('data', decoder.push);
+            conn.on('error', () => settle(false));
+            conn.on('close', () => {
+                status = 'closed';
+                settle(false);
+            });
+            // Don't keep the host process alive just for the channel
+            conn.unref();
+        });
+    }
+
+    /**
+     * Send a message, queueing it until the handshake completes
+     */
+    function send(message: IPCMessage): void {
+        if (status === 'ready' && socket) {
+            write(socket, message);
+        } else if (status !== 'closed' && queue.length < MAX_QUEUED) {
+            queue.push(message);
+        }
+    }
+
+    function isConnected(): boolean {
+        return status === 'ready';
+    }
+
+    /**
+     * Flush pending writes and disconnect
+     */
+    async function close(): Promise<void> {
+        const current = socket;
+        status = 'closed';
+        socket = null;
+        if (!current || current.destroyed) return;
+
+        await new Promise<void>((resolvePromise) => current.end(() => resolvePromise()));
+    }
+
+    return {
+        path,
+        connect,
+        send,
+        isConnected,
+        close,
+    };
+}
+
+export type IPCClient = ReturnType<typeof createIPCClient>;
+
+// Helpers
+
+type IPCHello = Extract<IPCFrame, { type: 'hello' }>['payload'];
+
+/**
+ * The peer's hello payload, or why the frame is not an acceptable one.
+ * Frames come from another process, so every field is checked.
+ */
+function readHello(frame: IPCFrame): IPCHello | string {
+    if (frame.type !== 'hello') return `expected hello, got ${frame.type}`;
+
+    const payload = (frame as { payload?: unknown }).payload;
+    if (!payload || typeof payload !== 'object') return 'hello without a payload';
+
+    const { version, role, pid } = payload as Record<string, unknown>;
+    if (version !== IPC_PROTOCOL_VERSION) {
+        return `protocol version ${String(version)} not supported (expected ${IPC_PROTOCOL_VERSION})`;
+    }
+    if (role !== 'plugin' && role !== 'cli') return `unknown role ${String(role)}`;
+    if (typeof pid !== 'number') return 'hello without a pid';
+
+    return { version, role, pid };
+}
+
+function write(socket: Socket, frame: IPCFrame): void {
+    if (!socket.destroyed) socket.write(encodeFrame(frame));
+}
+
+/**
+ * Whether a live server owns the socket (a refused connection means it's stale)
+ */
+function isListening(path: string): Promise<boolean> {
+    return new Promise((resolvePromise) => {
+        const probe = createConnection(path);
+        probe.once('connect', () => {
+            probe.destroy();
+            resolvePromise(true);
+        });
+        probe.once('error', () => resolvePromise(false));
+    });
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFile, mkdtemp, readFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { addMemoryEntry, createMemoryEntry } from './memory-format.js';
+import { createMemoryBackend, type MemoryBackendKind } from './memory-backend.js';
+import { getJournalPath } from './memory-journal.js';
+import type { MemoryStore } from './types.js';
+
+// Kept in a variable so tsc doesn't need types for a module Node 20 lacks
+const NODE_SQLITE = 'node:sqlite';
+const hasNodeSqlite = await import(NODE_SQLITE).then(() => true, () => false);
+
+let projectPath: string;
+
+beforeEach(async () => {
+    projectPath = await mkdtemp(join(tmpdir(), 'harness-backend-'));
+});
+
+afterEach(async () => {
+    await rm(projectPath, { recursive: true, force: true });
+});
+
+function add(store: MemoryStore, content: string): MemoryStore {
+    return addMemoryEntry(store, createMemoryEntry('test', 'context', content));
+}
+
+function edit(store: MemoryStore, from: string, to: string): MemoryStore {
+    return { ...store, entries: store.entries.map((e) => (e.content === from ? { ...e, content: to } : e)) };
+}
+
+function remove(store: MemoryStore, content: string): MemoryStore {
+    return { ...store, entries: store.entries.filter((e) => e.content !== content) };
+}
+
+async function contents(kind: MemoryBackendKind): Promise<string[]> {
+    const result = await createMemoryBackend(projectPath, kind).load();
+    return (result?.store.entries ?? []).map((e) => e.content).sort();
+}
+
+const cases: Array<[MemoryBackendKind, boolean]> = [
+    ['json', true],
+    ['jsonl', true],
+    ['sqlite', hasNodeSqlite],
+];
+
+describe.each(cases)('%s backend save', (kind, available) => {
+    it.skipIf(!available)('keeps additions from writers that loaded the same base', async () => {
+        const base = await createMemoryBackend(projectPath, kind).update((store) => add(store, 'shared'));
+
+        await createMemoryBackend(projectPath, kind).save(base, add(base, 'from one'));
+        await createMemoryBackend(projectPath, kind).save(base, add(base, 'from two'));
+
+        expect(await contents(kind)).toEqual(['from one', 'from two', 'shared']);
+    });
+
+    it.skipIf(!available)('lets local deletes and edits win and keeps remote changes to untouched entries', async () => {
+        const base = await createMemoryBackend(projectPath, kind).update((store) =>
+            add(add(add(store, 'x'), 'y'), 'z'));
+
+        // Writer two deletes x, edits y and z
+        const two = edit(edit(remove(base, 'x'), 'y', 'y by two'), 'z', 'z by two');
+        await createMemoryBackend(projectPath, kind).save(base, two);
+
+        // Writer one, still on the old base, edits x and deletes y
+        const one = remove(edit(base, 'x', 'x by one'), 'y');
+        const saved = await createMemoryBackend(projectPath, kind).save(base, one);
+
+        expect(saved.entries.map((e) => e.content).sort()).toEqual(['x by one', 'z by two']);
+        expect(await contents(kind)).toEqual(['x by one', 'z by two']);
+    });
+});
+
+describe('jsonl backend journal', () => {
+    it('replays up to a torn last line and appends after it', async () => {
+        const backend = createMemoryBackend(projectPath, 'jsonl');
+        const base = await backend.update((store) => add(add(store, 'first'), 'second'));
+        await appendFile(getJournalPath(projectPath), '{"op":"put","entry":{"id":"torn","conte');
+
+        const torn = await createMemoryBackend(projectPath, 'jsonl').load();
+        expect(torn?.store.entries.map((e) => e.content).sort()).toEqual(['first', 'second']);
+        expect(torn?.rejected).toHaveLength(1);
+
+        await createMemoryBackend(projectPath, 'jsonl').save(base, add(remove(base, 'first'), 'third'));
+
+        expect(await contents('jsonl')).toEqual(['second', 'third']);
+        const lines = (await readFile(getJournalPath(projectPath), 'utf-8')).trimEnd().split('\n');
+        expect(lines.filter((line) => line.includes('"third"'))).toHaveLength(1);
+        expect(JSON.parse(lines[lines.length - 1]).op).toBe('put');
+    });
+});
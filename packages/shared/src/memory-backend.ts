@@ -0,0 +1,81 @@
+/**
+ * OpenCode Harness - Memory Backends
+ * Storage interface behind the memory layer, plus the JSON file backend
+ */
+
+import { existsSync } from 'fs';
+import type { HarnessConfig, MemoryStore } from './types.js';
+import { mergeMemoryStores } from './memory-format.js';
+import type { MemoryStoreParseResult } from './memory-schema.js';
+import {
+    backupMemoryFile,
+    getMemoryPath,
+    readMemoryFile,
+    updateMemoryFile,
+    writeMemoryFile,
+} from './memory-file.js';
+import { createJournalBackend } from './memory-journal.js';
+import { createSqliteBackend } from './memory-sqlite.js';
+
+export type MemoryBackendKind = HarnessConfig['memory']['backend'];
+
+/**
+ * Where and how a project's memories are stored
+ *
+ * Every backend is safe for concurrent writers: `save` and `update` merge
+ * with whatever other processes wrote since the caller loaded.
+ */
+export interface MemoryBackend {
+    kind: MemoryBackendKind;
+    /** File (or database) holding the memories */
+    path: string;
+    exists(): boolean;
+    /** Load and migrate the stored memories, or null if nothing is stored yet */
+    load(): Promise<MemoryStoreParseResult | null>;
+    /** Persist what changed from `base` to `local`; returns what is now stored */
+    save(base: MemoryStore, local: MemoryStore): Promise<MemoryStore>;
+    /** Read-modify-write against the latest stored state */
+    update(fn: (current: MemoryStore) => MemoryStore | Promise<MemoryStore>): Promise<MemoryStore>;
+    /** Overwrite everything (used by migration) */
+    replace(store: MemoryStore): Promise<void>;
+    /** Copy stored data aside, returning the backup path */
+    backup(reason: string): Promise<string>;
+}
+
+/**
+ * Create the backend selected by `HarnessConfig.memory.backend`
+ */
+export function createMemoryBackend(
+    projectPath: string,
+    kind: MemoryBackendKind = 'json'
+): MemoryBackend {
+    switch (kind) {
+        case 'json':
+            return createJsonBackend(projectPath);
+        case 'jsonl':
+            return createJournalBackend(projectPath);
+        case 'sqlite':
+            return createSqliteBackend(projectPath);
+        default:
+            throw new Error(`Unknown memory backend: ${String(kind)}`);
+    }
+}
+
+/**
+ * JSON backend - the whole store in one pretty-printed memory.json
+ */
+export function createJsonBackend(projectPath: string): MemoryBackend {
+    const path = getMemoryPath(projectPath);
+
+    return {
+        kind: 'json',
+        path,
+        exists: () => existsSync(path),
+        load: () => readMemoryFile(projectPath),
+        save: (base, local) =>
+            updateMemoryFile(projectPath, (current) => mergeMemoryStores(base, local, current)),
+        update: (fn) => updateMemoryFile(projectPath, fn),
+        replace: (store) => writeMemoryFile(projectPath, store),
+        backup: (reason) => backupMemoryFile(projectPath, reason),
+    };
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { compressMemories, createDeterministicCompressor } from './memory-compression.js';
+import type { MemoryEntry, MemoryStore, MemoryType } from './types.js';
+
+const NOW = new Date('2026-03-01T12:00:00Z').getTime();
+
+beforeEach(() => {
+    vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+function entry(id: string, type: MemoryType, content: string, extra: Partial<MemoryEntry> = {}): MemoryEntry {
+    return { id, timestamp: NOW - 1000, sessionId: 'old', type, content, importance: 0.5, ...extra };
+}
+
+function store(entries: MemoryEntry[]): MemoryStore {
+    return { version: 1, projectId: 'project', lastUpdated: NOW - 1000, entries };
+}
+
+describe('compressMemories', () => {
+    const session = [
+        entry('d1', 'decision', 'Use vitest for unit tests', { importance: 0.9 }),
+        entry('d2', 'decision', 'Use vitest for the unit tests', { importance: 0.6 }),
+        entry('f1', 'finding', 'The router lives in src/routes.ts'),
+        entry('e1', 'error', '`npm test` failed: missing env'),
+        entry('e2', 'error', '`npm test` failed: missing env', { importance: 0.8, timestamp: NOW - 500 }),
+        entry('p1', 'preference', 'Always use pnpm'),
+    ];
+
+    it('folds a session into one summary, clustering near-duplicates', async () => {
+        const result = await compressMemories(store(session), 'old', createDeterministicCompressor(), { minEntries: 3 });
+        const summary = result.entries.find((e) => e.type === 'summary')!;
+
+        expect(summary.content).toBe([
+            'Decisions:',
+            '- Use vitest for unit tests (x2)',
+            'Findings:',
+            '- The router lives in src/routes.ts',
+        ].join('\n'));
+        expect(summary).toMatchObject({
+            sessionId: 'old',
+            importance: 0.9,
+            timestamp: NOW,
+            metadata: { compressor: 'deterministic', sourceIds: ['d1', 'd2', 'f1'], sourceTypes: ['decision', 'finding'] },
+        });
+        expect(result.lastUpdated).toBe(NOW);
+    });
+
+    it('keeps errors and preferences verbatim, merging exact duplicates', async () => {
+        const result = await compressMemories(store(session), 'old', createDeterministicCompressor(), { minEntries: 3 });
+
+        expect(result.entries.filter((e) => e.type !== 'summary')).toEqual([
+            { ...session[3], importance: 0.8, timestamp: NOW - 500, metadata: { mergedIds: ['e2'] } },
+            session[5],
+        ]);
+    });
+
+    it('leaves pinned entries, other sessions and small sessions alone', async () => {
+        const pinned = entry('pin', 'decision', 'Ship on Fridays', { pinned: true });
+        const other = entry('x', 'finding', 'Other session', { sessionId: 'new' });
+        const input = store([...session, pinned, other]);
+
+        const result = await compressMemories(input, 'old', createDeterministicCompressor(), { minEntries: 3 });
+
+        expect(result.entries).toContainEqual(pinned);
+        expect(result.entries).toContainEqual(other);
+        expect(await compressMemories(input, 'old', createDeterministicCompressor(), { minEntries: 10 })).toBe(input);
+    });
+});
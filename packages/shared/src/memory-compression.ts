@@ -0,0 +1,227 @@
+/**
+ * OpenCode Harness - Memory Compression
+ * Pluggable strategies for collapsing a session's memories into summaries
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import type { MemoryEntry, MemoryStore, MemoryType } from './types.js';
+import { createMemoryEntry } from './memory-format.js';
+import { tokenizeText } from './memory-index.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * A compression strategy
+ * Receives one session's non-summary entries and returns their replacements
+ */
+export interface MemoryCompressor {
+    name: string;
+    compress(entries: MemoryEntry[], sessionId: string): Promise<MemoryEntry[]>;
+}
+
+export interface CompressOptions {
+    /** Skip sessions with fewer entries than this */
+    minEntries?: number;
+}
+
+/**
+ * Types too valuable to paraphrase; they survive compression as-is
+ */
+const VERBATIM_TYPES: MemoryType[] = ['error', 'preference'];
+
+const SECTION_TITLES: Partial<Record<MemoryType, string>> = {
+    decision: 'Decisions',
+    finding: 'Findings',
+    context: 'Context',
+};
+
+/**
+ * Compress a session's memories into summaries (immutable)
+ */
+export async function compressMemories(
+    store: MemoryStore,
+    sessionId: string,
+    compressor: MemoryCompressor = createDeterministicCompressor(),
+    options: CompressOptions = {}
+): Promise<MemoryStore> {
+    const minEntries = options.minEntries ?? 10;
+    const sessionEntries = store.entries.filter(
+        (e) => e.sessionId === sessionId && e.type !== 'summary' && !e.pinned
+    );
+
+    if (sessionEntries.length < minEntries) {
+        return store; // Not enough to compress
+    }
+
+    const replacements = await compressor.compress(sessionEntries, sessionId);
+    const replaced = new Set(sessionEntries.map((e) => e.id));
+
+    return {
+        ...store,
+        lastUpdated: Date.now(),
+        entries: [...store.entries.filter((e) => !replaced.has(e.id)), ...replacements],
+    };
+}
+
+/**
+ * Deterministic compressor
+ * Dedupes, clusters near-duplicates and keeps errors/preferences verbatim
+ */
+export function createDeterministicCompressor(similarity: number = 0.6): MemoryCompressor {
+    return {
+        name: 'deterministic',
+        async compress(entries, sessionId) {
+            const { verbatim, rest } = splitVerbatim(entries);
+            if (rest.length === 0) return verbatim;
+
+            const lines: string[] = [];
+            for (const [type, title] of Object.entries(SECTION_TITLES)) {
+                const clusters = clusterEntries(rest.filter((e) => e.type === type), similarity);
+                if (clusters.length === 0) continue;
+
+                lines.push(`${title}:`);
+                for (const cluster of clusters) {
+                    const count = cluster.length > 1 ? ` (x${cluster.length})` : '';
+                    lines.push(`- ${cluster[0].content}${count}`);
+                }
+            }
+
+            return [...verbatim, createSummary(sessionId, lines.join('\n'), rest, 'deterministic')];
+        },
+    };
+}
+
+export interface OpencodeCompressorOptions {
+    cwd: string;
+    model?: string;
+    timeout?: number;
+    /** Used when opencode is missing or fails */
+    fallback?: MemoryCompressor;
+}
+
+/**
+ * LLM compressor
+ * Shells out to `opencode run` to write the summary
+ */
+export function createOpencodeCompressor(options: OpencodeCompressorOptions): MemoryCompressor {
+    const fallback = options.fallback ?? createDeterministicCompressor();
+
+    return {
+        name: 'opencode',
+        async compress(entries, sessionId) {
+            const { verbatim, rest } = splitVerbatim(entries);
+            if (rest.length === 0) return verbatim;
+
+            try {
+                const args = ['run', buildSummaryPrompt(rest)];
+                if (options.model) args.push('--model', options.model);
+
+                const { stdout } = await execFileAsync('opencode', args, {
+                    cwd: options.cwd,
+                    timeout: options.timeout ?? 120000,
+                    maxBuffer: 1024 * 1024,
+                });
+
+                const content = stdout.trim();
+                if (!content) throw new Error('opencode returned an empty summary');
+
+                return [...verbatim, createSummary(sessionId, content, rest, 'opencode')];
+            } catch (error) {
+                console.warn('[Harness] opencode compression failed, using fallback:', error);
+                return fallback.compress(entries, sessionId);
+            }
+        },
+    };
+}
+
+// Helpers
+
+function splitVerbatim(entries: MemoryEntry[]): { verbatim: MemoryEntry[]; rest: MemoryEntry[] } {
+    const verbatim = entries.filter((e) => VERBATIM_TYPES.includes(e.type));
+    const rest = entries.filter((e) => !VERBATIM_TYPES.includes(e.type));
+    return { verbatim: dedupeExact(verbatim), rest };
+}
+
+/**
+ * Merge entries with identical type and content, carrying the max importance
+ */
+function dedupeExact(entries: MemoryEntry[]): MemoryEntry[] {
+    const byKey = new Map<string, MemoryEntry>();
+
+    for (const entry of entries) {
+        const key = `${entry.type}:${entry.content.trim().toLowerCase()}`;
+        const existing = byKey.get(key);
+        if (!existing) {
+            byKey.set(key, entry);
+            continue;
+        }
+
+        const mergedIds = (existing.metadata?.mergedIds as string[] | undefined) ?? [];
+        byKey.set(key, {
+            ...existing,
+            importance: Math.max(existing.importance, entry.importance),
+            timestamp: Math.max(existing.timestamp, entry.timestamp),
+            metadata: { ...existing.metadata, mergedIds: [...mergedIds, entry.id] },
+        });
+    }
+
+    return [...byKey.values()];
+}
+
+/**
+ * Greedy clustering by token-set similarity; the first entry of each cluster is its representative
+ */
+function clusterEntries(entries: MemoryEntry[], similarity: number): MemoryEntry[][] {
+    const sorted = [...entries].sort((a, b) => b.importance - a.importance || b.timestamp - a.timestamp);
+    const clusters: Array<{ terms: Set<string>; entries: MemoryEntry[] }> = [];
+
+    for (const entry of sorted) {
+        const terms = new Set(tokenizeText(entry.content));
+        const match = clusters.find((c) => jaccard(c.terms, terms) >= similarity);
+        if (match) {
+            match.entries.push(entry);
+        } else {
+            clusters.push({ terms, entries: [entry] });
+        }
+    }
+
+    return clusters.map((c) => c.entries);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 && b.size === 0) return 1;
+    let shared = 0;
+    for (const term of a) {
+        if (b.has(term)) shared++;
+    }
+    return shared / (a.size + b.size - shared);
+}
+
+function createSummary(
+    sessionId: string,
+    content: string,
+    sources: MemoryEntry[],
+    compressor: string
+): MemoryEntry {
+    return createMemoryEntry(
+        sessionId,
+        'summary',
+        content,
+        Math.max(...sources.map((e) => e.importance)),
+        {
+            compressor,
+            sourceIds: sources.map((e) => e.id),
+            sourceTypes: [...new Set(sources.map((e) => e.type))],
+        }
+    );
+}
+
+function buildSummaryPrompt(entries: MemoryEntry[]): string {
+    return [
+        'Summarize these notes from a coding session into a short list of durable facts.',
+        'Merge duplicates, keep file names and commands exact, and output only the list.',
+        '',
+        ...entries.map((e) => `- [${e.type}] ${e.content}`),
+    ].join('\n');
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, readdir, rm, utimes, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { dirname, join } from 'path';
+import { tmpdir } from 'os';
+import { addMemoryEntry, createMemoryEntry } from './memory-format.js';
+import { createMemoryBackend } from './memory-backend.js';
+import { getMemoryPath, readMemoryFile, updateMemoryFile } from './memory-file.js';
+
+const WRITERS = 12;
+
+let projectPath: string;
+
+beforeEach(async () => {
+    projectPath = await mkdtemp(join(tmpdir(), 'harness-memory-'));
+});
+
+afterEach(async () => {
+    await rm(projectPath, { recursive: true, force: true });
+});
+
+function addNote(content: string) {
+    return (store: Parameters<typeof addMemoryEntry>[0]) =>
+        addMemoryEntry(store, createMemoryEntry('test', 'context', content));
+}
+
+function notes(count: number): string[] {
+    return Array.from({ length: count }, (_, i) => `note ${i}`);
+}
+
+describe('updateMemoryFile', () => {
+    it('keeps every entry when writers run at once', async () => {
+        await Promise.all(notes(WRITERS).map((note) => updateMemoryFile(projectPath, addNote(note))));
+
+        const result = await readMemoryFile(projectPath);
+        expect(result?.store.entries.map((entry) => entry.content).sort()).toEqual(notes(WRITERS).sort());
+        expect(existsSync(`${getMemoryPath(projectPath)}.lock`)).toBe(false);
+    });
+
+    it('takes over a lock left behind by a crashed writer', async () => {
+        const lockPath = `${getMemoryPath(projectPath)}.lock`;
+        await mkdir(dirname(lockPath), { recursive: true });
+        await writeFile(lockPath, '999999\n0');
+        const old = new Date(Date.now() - 60_000);
+        await utimes(lockPath, old, old);
+
+        const started = Date.now();
+        const store = await updateMemoryFile(projectPath, addNote('after crash'));
+
+        expect(store.entries.map((entry) => entry.content)).toEqual(['after crash']);
+        expect(Date.now() - started).toBeLessThan(5000);
+        expect(existsSync(lockPath)).toBe(false);
+    });
+
+    it('backs up an unparseable file and starts over', async () => {
+        const memoryPath = getMemoryPath(projectPath);
+        await mkdir(dirname(memoryPath), { recursive: true });
+        await writeFile(memoryPath, '{"entries": [');
+
+        const store = await updateMemoryFile(projectPath, addNote('fresh'));
+
+        expect(store.entries.map((entry) => entry.content)).toEqual(['fresh']);
+        expect((await readMemoryFile(projectPath))?.store.entries).toHaveLength(1);
+        const backups = (await readdir(dirname(memoryPath))).filter((file) => file.includes('.corrupt-'));
+        expect(backups).toHaveLength(1);
+    });
+});
+
+describe.each(['json', 'jsonl'] as const)('%s backend update', (kind) => {
+    it('keeps every entry when writers run at once', async () => {
+        const backend = createMemoryBackend(projectPath, kind);
+
+        await Promise.all(notes(WRITERS).map((note) => backend.update(addNote(note))));
+
+        const result = await createMemoryBackend(projectPath, kind).load();
+        expect(result?.store.entries.map((entry) => entry.content).sort()).toEqual(notes(WRITERS).sort());
+    });
+});
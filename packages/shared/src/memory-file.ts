@@ -0,0 +1,154 @@
+/**
+ * OpenCode Harness - Memory File
+ * Reading and writing .opencode/.harness/memory.json
+ */
+
+import { readFile, writeFile, mkdir, copyFile, open, rename, rm, stat } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, dirname } from 'path';
+import { randomUUID } from 'crypto';
+import type { MemoryStore } from './types.js';
+import { getHarnessDir } from './config.js';
+import { createMemoryStore } from './memory-format.js';
+import { MemoryFormatError, parseMemoryStore, type MemoryStoreParseResult } from './memory-schema.js';
+
+const LOCK_TIMEOUT_MS = 10000;
+const STALE_LOCK_MS = 30000;
+
+/**
+ * Raised when the memory lock cannot be acquired in time
+ */
+export class MemoryLockError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MemoryLockError';
+    }
+}
+
+/**
+ * Get the memory file path for a project
+ */
+export function getMemoryPath(projectPath: string): string {
+    return join(getHarnessDir(projectPath), 'memory.json');
+}
+
+/**
+ * Stable project id derived from the project path
+ */
+export function getProjectId(projectPath: string): string {
+    return projectPath.replace(/[\\/:]/g, '-').replace(/^-+|-+$/g, '').toLowerCase();
+}
+
+/**
+ * Read and migrate the memory file, or null if there is none
+ * Throws on unreadable JSON or an unrecognised format
+ */
+export async function readMemoryFile(projectPath: string): Promise<MemoryStoreParseResult | null> {
+    const memoryPath = getMemoryPath(projectPath);
+    if (!existsSync(memoryPath)) return null;
+
+    const content = await readFile(memoryPath, 'utf-8');
+    return parseMemoryStore(JSON.parse(content), getProjectId(projectPath));
+}
+
+/**
+ * Write the memory file atomically (temp file + rename)
+ * Readers never see a half-written file; use updateMemoryFile when others may be writing
+ */
+export async function writeMemoryFile(projectPath: string, store: MemoryStore): Promise<void> {
+    const memoryPath = getMemoryPath(projectPath);
+    const tempPath = `${memoryPath}.${process.pid}.${randomUUID()}.tmp`;
+    await mkdir(dirname(memoryPath), { recursive: true });
+
+    try {
+        await writeFile(tempPath, JSON.stringify(store, null, 2));
+        await rename(tempPath, memoryPath);
+    } catch (error) {
+        await rm(tempPath, { force: true });
+        throw error;
+    }
+}
+
+/**
+ * Read-modify-write the memory file under the lock
+ * `update` receives what is on disk now and returns the store to write.
+ * Unparseable JSON is backed up and replaced by an empty store.
+ */
+export async function updateMemoryFile(
+    projectPath: string,
+    update: (current: MemoryStore) => MemoryStore | Promise<MemoryStore>
+): Promise<MemoryStore> {
+    return withMemoryLock(projectPath, async () => {
+        const result = await readMemoryFile(projectPath).catch(async (error: unknown) => {
+            if (!(error instanceof SyntaxError)) throw error;
+            // Otherwise every later write would fail on the same file
+            await backupMemoryFile(projectPath, 'corrupt');
+            return null;
+        });
+        if (result?.readOnly) {
+            throw new MemoryFormatError(
+                `memory.json was written by a newer harness (format v${result.sourceVersion})`
+            );
+        }
+
+        const next = await update(result?.store ?? createMemoryStore(getProjectId(projectPath)));
+        await writeMemoryFile(projectPath, next);
+        return next;
+    });
+}
+
+/**
+ * Run `fn` while holding the project's memory lock file
+ * Locks older than STALE_LOCK_MS are assumed to belong to a crashed writer
+ */
+export async function withMemoryLock<T>(projectPath: string, fn: () => Promise<T>): Promise<T> {
+    const lockPath = `${getMemoryPath(projectPath)}.lock`;
+    await mkdir(dirname(lockPath), { recursive: true });
+    const started = Date.now();
+
+    for (;;) {
+        try {
+            const handle = await open(lockPath, 'wx');
+            await handle.writeFile(`${process.pid}\n${Date.now()}`);
+            await handle.close();
+            break;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+
+            if (await isStaleLock(lockPath)) {
+                await rm(lockPath, { force: true });
+                continue;
+            }
+            if (Date.now() - started > LOCK_TIMEOUT_MS) {
+                throw new MemoryLockError(`Timed out waiting for memory lock: ${lockPath}`);
+            }
+            await new Promise((resolve) => setTimeout(resolve, 20 + Math.random() * 40));
+        }
+    }
+
+    try {
+        return await fn();
+    } finally {
+        await rm(lockPath, { force: true });
+    }
+}
+
+/**
+ * Copy the memory file aside before it gets replaced, returning the backup path
+ */
+export async function backupMemoryFile(projectPath: string, reason: string): Promise<string> {
+    const memoryPath = getMemoryPath(projectPath);
+    const backupPath = `${memoryPath}.${reason}-${Date.now()}.bak`;
+    await copyFile(memoryPath, backupPath);
+    return backupPath;
+}
+
+async function isStaleLock(lockPath: string): Promise<boolean> {
+    try {
+        const info = await stat(lockPath);
+        return Date.now() - info.mtimeMs > STALE_LOCK_MS;
+    } catch {
+        // Released between our open() and stat()
+        return false;
+    }
+}
@@ -53,6 +53,176 @@ export function addMemoryEntry(
     };
 }
 
+/**
+ * Find an entry by id or unique id prefix
+ */
+export function findMemoryEntry(
+    store: MemoryStore,
+    idOrPrefix: string
+): MemoryEntry | undefined {
+    const exact = store.entries.find((e) => e.id === idOrPrefix);
+    if (exact) return exact;
+
+    const matches = store.entries.filter((e) => e.id.startsWith(idOrPrefix));
+    return matches.length === 1 ? matches[0] : undefined;
+}
+
+/**
+ * Update fields of an entry (immutable)
+ */
+export function updateMemoryEntry(
+    store: MemoryStore,
+    id: string,
+    patch: Partial<Pick<MemoryEntry, 'type' | 'content' | 'importance' | 'pinned' | 'metadata'>>
+): MemoryStore {
+    return {
+        ...store,
+        lastUpdated: Date.now(),
+        entries: store.entries.map((e) =>
+            e.id === id
+                ? {
+                    ...e,
+                    ...patch,
+                    importance: Math.max(0, Math.min(1, patch.importance ?? e.importance)),
+                }
+                : e
+        ),
+    };
+}
+
+/**
+ * Remove entries by id (immutable)
+ */
+export function removeMemoryEntries(
+    store: MemoryStore,
+    ids: string[]
+): MemoryStore {
+    const remove = new Set(ids);
+    return {
+        ...store,
+        lastUpdated: Date.now(),
+        entries: store.entries.filter((e) => !remove.has(e.id)),
+    };
+}
+
+/**
+ * Three-way merge keyed by entry id
+ *
+ * `base` is what this writer last read, `local` its current copy and `remote`
+ * what is on disk now. Local additions, edits and deletions win; everything
+ * other writers did since `base` is kept.
+ */
+export function mergeMemoryStores(
+    base: MemoryStore,
+    local: MemoryStore,
+    remote: MemoryStore
+): MemoryStore {
+    const baseById = new Map(base.entries.map((e) => [e.id, e]));
+    const localById = new Map(local.entries.map((e) => [e.id, e]));
+    const changedLocally = (entry: MemoryEntry) => {
+        const original = baseById.get(entry.id);
+        return !original || JSON.stringify(original) !== JSON.stringify(entry);
+    };
+
+    const merged = new Map<string, MemoryEntry>();
+    for (const entry of remote.entries) {
+        const mine = localById.get(entry.id);
+        if (!mine) {
+            // Deleted here, or added by someone else
+            if (!baseById.has(entry.id)) merged.set(entry.id, entry);
+            continue;
+        }
+        merged.set(entry.id, changedLocally(mine) ? mine : entry);
+    }
+
+    for (const entry of local.entries) {
+        // Added here, or edited here after someone else deleted it
+        if (!merged.has(entry.id) && changedLocally(entry)) {
+            merged.set(entry.id, entry);
+        }
+    }
+
+    return {
+        ...remote,
+        lastUpdated: Date.now(),
+        entries: [...merged.values()],
+    };
+}
+
+/**
+ * Changes that turn one store into another
+ */
+export interface MemoryChanges {
+    upserts: MemoryEntry[];
+    deletes: string[];
+}
+
+/**
+ * Compute what `local` added, edited or deleted relative to `base`
+ */
+export function diffMemoryStores(
+    base: MemoryStore,
+    local: MemoryStore
+): MemoryChanges {
+    const baseById = new Map(base.entries.map((e) => [e.id, e]));
+    const localIds = new Set(local.entries.map((e) => e.id));
+
+    return {
+        upserts: local.entries.filter((e) => {
+            const original = baseById.get(e.id);
+            return !original || JSON.stringify(original) !== JSON.stringify(e);
+        }),
+        deletes: base.entries.filter((e) => !localIds.has(e.id)).map((e) => e.id),
+    };
+}
+
+/**
+ * Apply upserts and deletes to a store (immutable)
+ */
+export function applyMemoryChanges(
+    store: MemoryStore,
+    changes: MemoryChanges
+): MemoryStore {
+    const byId = new Map(store.entries.map((e) => [e.id, e]));
+    for (const id of changes.deletes) byId.delete(id);
+    for (const entry of changes.upserts) byId.set(entry.id, entry);
+
+    return {
+        ...store,
+        lastUpdated: Date.now(),
+        entries: [...byId.values()],
+    };
+}
+
+/**
+ * Criteria for selecting memories
+ */
+export interface MemoryFilter {
+    types?: MemoryType[];
+    sessionId?: string;
+    minImportance?: number;
+    since?: number;
+    until?: number;
+    pinned?: boolean;
+}
+
+/**
+ * Filter memories by type, session, importance, date and pin state
+ */
+export function filterMemories(
+    entries: MemoryEntry[],
+    filter: MemoryFilter
+): MemoryEntry[] {
+    return entries.filter((e) =>
+        (!filter.types || filter.types.includes(e.type)) &&
+        (filter.sessionId === undefined || e.sessionId === filter.sessionId) &&
+        (filter.minImportance === undefined || e.importance >= filter.minImportance) &&
+        (filter.since === undefined || e.timestamp >= filter.since) &&
+        (filter.until === undefined || e.timestamp <= filter.until) &&
+        (filter.pinned === undefined || !!e.pinned === filter.pinned)
+    );
+}
+
 /**
  * Get recent memories
  */
@@ -87,9 +257,9 @@ export function pruneOldMemories(
 ): MemoryStore {
     const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
 
-    // Keep high-importance memories even if old
+    // Keep pinned and high-importance memories even if old
     const entries = store.entries.filter(
-        (e) => e.timestamp > cutoff || e.importance > 0.8
+        (e) => e.pinned || e.timestamp > cutoff || e.importance > 0.8
     );
 
     return {
@@ -99,50 +269,6 @@ export function pruneOldMemories(
     };
 }
 
-/**
- * Compress memories into summaries
- * Groups memories by session and creates summary entries
- */
-export function compressMemories(
-    store: MemoryStore,
-    sessionId: string
-): MemoryStore {
-    const sessionEntries = store.entries.filter(
-        (e) => e.sessionId === sessionId && e.type !== 'summary'
-    );
-
-    if (sessionEntries.length < 10) {
-        return store; // Not enough to compress
-    }
-
-    // Create summary of the session
-    const decisions = sessionEntries.filter((e) => e.type === 'decision');
-    const findings = sessionEntries.filter((e) => e.type === 'finding');
-
-    const summaryContent = [
-        decisions.length > 0 ? `Decisions: ${decisions.map((d) => d.content).join('; ')}` : '',
-        findings.length > 0 ? `Findings: ${findings.map((f) => f.content).join('; ')}` : '',
-    ]
-        .filter(Boolean)
-        .join('\n');
-
-    const summary = createMemoryEntry(
-        sessionId,
-        'summary',
-        summaryContent,
-        0.9
-    );
-
-    // Remove old entries, keep summary
-    const otherEntries = store.entries.filter((e) => e.sessionId !== sessionId);
-
-    return {
-        ...store,
-        lastUpdated: Date.now(),
-        entries: [...otherEntries, summary],
-    };
-}
-
 /**
  * Format memories for LLM context
  */
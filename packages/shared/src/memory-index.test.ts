@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { createMemoryIndex, tokenizeText } from './memory-index.js';
+import type { MemoryEntry, MemoryType } from './types.js';
+
+const NOW = Date.now();
+const DAY = 24 * 60 * 60 * 1000;
+
+/** Rank by BM25 alone, so recency and importance don't blur the ordering */
+const relevanceOnly = { weights: { relevance: 1, recency: 0, importance: 0 } };
+
+function entry(id: string, content: string, type: MemoryType = 'finding', timestamp: number = NOW): MemoryEntry {
+    return { id, timestamp, sessionId: 's', type, content, importance: 0.5 };
+}
+
+const ids = (results: Array<{ entry: MemoryEntry }>) => results.map((result) => result.entry.id);
+
+describe('tokenizeText', () => {
+    it('lowercases, drops stopwords and folds plurals', () => {
+        expect(tokenizeText('The Queries for caches, and a DB')).toEqual(['query', 'cache', 'db']);
+    });
+});
+
+describe('createMemoryIndex', () => {
+    it('ranks more occurrences of a term higher', () => {
+        const index = createMemoryIndex([
+            entry('once', 'cache invalidation bug'),
+            entry('twice', 'cache cache invalidation'),
+            entry('other', 'router setup'),
+        ]);
+
+        expect(ids(index.search('cache', relevanceOnly))).toEqual(['twice', 'once']);
+    });
+
+    it('ranks a short entry above a long one with the same term count', () => {
+        const index = createMemoryIndex([
+            entry('long', 'cache layer sits between router handlers database pool metrics exporter'),
+            entry('short', 'cache layer'),
+        ]);
+
+        const [first, second] = index.search('cache', relevanceOnly);
+
+        expect([first.entry.id, second.entry.id]).toEqual(['short', 'long']);
+        expect(first.relevance).toBe(1);
+        expect(second.relevance).toBeLessThan(1);
+    });
+
+    it('only returns entries matching a query term', () => {
+        const index = createMemoryIndex([entry('a', 'sqlite backend'), entry('b', 'router setup')]);
+
+        expect(ids(index.search('sqlite'))).toEqual(['a']);
+        expect(index.search('postgres')).toEqual([]);
+    });
+
+    it('filters by type and age', () => {
+        const index = createMemoryIndex([
+            entry('decision', 'use sqlite', 'decision'),
+            entry('old', 'sqlite locked', 'error', NOW - 30 * DAY),
+            entry('new', 'sqlite busy', 'error'),
+        ]);
+
+        expect(ids(index.search('sqlite', { types: ['error'] })).sort()).toEqual(['new', 'old']);
+        expect(ids(index.search('sqlite', { since: NOW - DAY })).sort()).toEqual(['decision', 'new']);
+        expect(ids(index.search('sqlite', { types: ['error'], since: NOW - DAY }))).toEqual(['new']);
+    });
+
+    it('ranks by recency and importance when the query is empty', () => {
+        const index = createMemoryIndex([
+            { ...entry('stale', 'a'), timestamp: NOW - 60 * DAY },
+            { ...entry('fresh', 'b'), importance: 0.9 },
+        ]);
+
+        expect(ids(index.search(''))).toEqual(['fresh', 'stale']);
+    });
+
+    it('re-indexes an updated entry', () => {
+        const index = createMemoryIndex([entry('a', 'uses jest'), entry('b', 'router')]);
+
+        index.add(entry('a', 'uses vitest'));
+
+        expect(index.size()).toBe(2);
+        expect(index.search('jest')).toEqual([]);
+        expect(ids(index.search('vitest'))).toEqual(['a']);
+    });
+
+    it('forgets a removed entry and its term counts', () => {
+        const index = createMemoryIndex([
+            entry('x', 'alpha alpha'),
+            entry('y', 'beta'),
+            entry('a1', 'alpha'),
+            entry('a2', 'alpha'),
+            entry('a3', 'alpha'),
+        ]);
+        // "beta" is the rarer term, so its single occurrence outweighs two common ones
+        expect(ids(index.search('alpha beta', relevanceOnly)).slice(0, 2)).toEqual(['y', 'x']);
+
+        for (const id of ['a1', 'a2', 'a3']) expect(index.remove(id)).toBe(true);
+        expect(index.remove('a1')).toBe(false);
+
+        // Now both terms are equally rare and term frequency decides
+        expect(ids(index.search('alpha beta', relevanceOnly))).toEqual(['x', 'y']);
+        expect(index.size()).toBe(2);
+    });
+});
@@ -0,0 +1,219 @@
+/**
+ * OpenCode Harness - Memory Index
+ * Local BM25 index over memory entries, blended with recency and importance
+ */
+
+import type { MemoryEntry, MemoryType } from './types.js';
+
+/**
+ * Weights for combining the score components (normalised to sum to 1)
+ */
+export interface MemoryScoreWeights {
+    relevance: number;
+    recency: number;
+    importance: number;
+}
+
+export interface MemorySearchOptions {
+    limit?: number;
+    types?: MemoryType[];
+    /** Only entries newer than this timestamp (ms) */
+    since?: number;
+    weights?: Partial<MemoryScoreWeights>;
+}
+
+export interface MemorySearchResult {
+    entry: MemoryEntry;
+    score: number;
+    relevance: number;
+}
+
+const DEFAULT_WEIGHTS: MemoryScoreWeights = {
+    relevance: 0.6,
+    recency: 0.2,
+    importance: 0.2,
+};
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const RECENCY_HALF_LIFE_MS = 14 * 24 * 60 * 60 * 1000;
+
+const STOPWORDS = new Set([
+    'the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'was', 'were',
+    'but', 'not', 'you', 'your', 'our', 'has', 'have', 'had', 'into', 'its',
+    'use', 'using', 'when', 'then', 'than', 'there', 'their', 'them', 'they',
+]);
+
+/**
+ * Split text into normalised index terms
+ */
+export function tokenizeText(text: string): string[] {
+    return text
+        .toLowerCase()
+        .split(/[^a-z0-9_]+/)
+        .filter((word) => word.length > 1 && !STOPWORDS.has(word))
+        .map(stem);
+}
+
+/**
+ * Decay factor in (0, 1] based on entry age
+ */
+export function recencyScore(timestamp: number, now: number = Date.now()): number {
+    const age = Math.max(0, now - timestamp);
+    return Math.pow(0.5, age / RECENCY_HALF_LIFE_MS);
+}
+
+interface IndexedDoc {
+    entry: MemoryEntry;
+    tf: Map<string, number>;
+    length: number;
+}
+
+/**
+ * Memory Index - incremental BM25 over entry content and metadata
+ */
+export function createMemoryIndex(entries: MemoryEntry[] = []) {
+    const docs = new Map<string, IndexedDoc>();
+    const df = new Map<string, number>();
+    let totalLength = 0;
+
+    /**
+     * Add (or replace) an entry
+     */
+    function add(entry: MemoryEntry): void {
+        if (docs.has(entry.id)) remove(entry.id);
+
+        const terms = tokenizeText(documentText(entry));
+        const tf = new Map<string, number>();
+        for (const term of terms) {
+            tf.set(term, (tf.get(term) ?? 0) + 1);
+        }
+        for (const term of tf.keys()) {
+            df.set(term, (df.get(term) ?? 0) + 1);
+        }
+
+        docs.set(entry.id, { entry, tf, length: terms.length });
+        totalLength += terms.length;
+    }
+
+    /**
+     * Remove an entry by id
+     */
+    function remove(id: string): boolean {
+        const doc = docs.get(id);
+        if (!doc) return false;
+
+        for (const term of doc.tf.keys()) {
+            const count = (df.get(term) ?? 1) - 1;
+            if (count <= 0) {
+                df.delete(term);
+            } else {
+                df.set(term, count);
+            }
+        }
+
+        docs.delete(id);
+        totalLength -= doc.length;
+        return true;
+    }
+
+    /**
+     * Rank entries for a query
+     * An empty query ranks purely by recency and importance
+     */
+    function search(query: string, options: MemorySearchOptions = {}): MemorySearchResult[] {
+        const weights = normalizeWeights({ ...DEFAULT_WEIGHTS, ...options.weights });
+        const queryTerms = [...new Set(tokenizeText(query))];
+        const now = Date.now();
+
+        const candidates = [...docs.values()].filter((doc) =>
+            (!options.types || options.types.includes(doc.entry.type)) &&
+            (options.since === undefined || doc.entry.timestamp >= options.since)
+        );
+
+        const raw = candidates.map((doc) => ({ doc, bm25: bm25(doc, queryTerms) }));
+        const maxBm25 = Math.max(0, ...raw.map((r) => r.bm25));
+
+        const results = raw
+            .filter((r) => queryTerms.length === 0 || r.bm25 > 0)
+            .map(({ doc, bm25: score }) => {
+                const relevance = maxBm25 > 0 ? score / maxBm25 : 0;
+                const total = queryTerms.length === 0
+                    ? (recencyScore(doc.entry.timestamp, now) + doc.entry.importance) / 2
+                    : weights.relevance * relevance +
+                      weights.recency * recencyScore(doc.entry.timestamp, now) +
+                      weights.importance * doc.entry.importance;
+                return { entry: doc.entry, score: total, relevance };
+            })
+            .sort((a, b) => b.score - a.score);
+
+        return options.limit !== undefined ? results.slice(0, options.limit) : results;
+    }
+
+    function size(): number {
+        return docs.size;
+    }
+
+    // Private methods
+
+    function bm25(doc: IndexedDoc, queryTerms: string[]): number {
+        if (queryTerms.length === 0 || docs.size === 0) return 0;
+
+        const avgLength = totalLength / docs.size || 1;
+        let score = 0;
+
+        for (const term of queryTerms) {
+            const freq = doc.tf.get(term);
+            if (!freq) continue;
+
+            const n = df.get(term) ?? 0;
+            const idf = Math.log(1 + (docs.size - n + 0.5) / (n + 0.5));
+            score += idf * (freq * (K1 + 1)) / (freq + K1 * (1 - B + B * (doc.length / avgLength)));
+        }
+
+        return score;
+    }
+
+    for (const entry of entries) add(entry);
+
+    return {
+        add,
+        remove,
+        search,
+        size,
+    };
+}
+
+export type MemoryIndex = ReturnType<typeof createMemoryIndex>;
+
+// Helpers
+
+function documentText(entry: MemoryEntry): string {
+    const parts = [entry.type, entry.content];
+    for (const value of Object.values(entry.metadata ?? {})) {
+        if (typeof value === 'string') {
+            parts.push(value);
+        } else if (Array.isArray(value)) {
+            parts.push(...value.filter((v): v is string => typeof v === 'string'));
+        }
+    }
+    return parts.join(' ');
+}
+
+function stem(word: string): string {
+    // Light plural folding is enough for short memory texts
+    if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+    if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+    return word;
+}
+
+function normalizeWeights(weights: MemoryScoreWeights): MemoryScoreWeights {
+    const sum = weights.relevance + weights.recency + weights.importance || 1;
+    return {
+        relevance: weights.relevance / sum,
+        recency: weights.recency / sum,
+        importance: weights.importance / sum,
+    };
+}
@@ -0,0 +1,206 @@
+/**
+ * OpenCode Harness - Memory Journal Backend
+ * Append-only JSONL log of entry changes with periodic compaction
+ */
+
+import { readFile, writeFile, appendFile, copyFile, mkdir, rename, rm } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, dirname } from 'path';
+import { randomUUID } from 'crypto';
+import type { MemoryEntry, MemoryStore } from './types.js';
+import { getHarnessDir } from './config.js';
+import {
+    applyMemoryChanges,
+    createMemoryStore,
+    diffMemoryStores,
+    type MemoryChanges,
+} from './memory-format.js';
+import {
+    MEMORY_STORE_VERSION,
+    MemoryFormatError,
+    normalizeMemoryEntry,
+    type MemoryStoreParseResult,
+} from './memory-schema.js';
+import { getProjectId, withMemoryLock } from './memory-file.js';
+import type { MemoryBackend } from './memory-backend.js';
+
+/**
+ * Rewrite the journal once it holds this many more records than live entries
+ */
+const COMPACT_SLACK = 200;
+
+type JournalRecord =
+    | { op: 'header'; version: number; projectId: string; createdAt: number }
+    | { op: 'put'; entry: MemoryEntry; at: number }
+    | { op: 'delete'; id: string; at: number };
+
+interface JournalState {
+    result: MemoryStoreParseResult;
+    records: number;
+    /** False when the last write was torn mid-line */
+    endsWithNewline: boolean;
+}
+
+/**
+ * Get the journal file path for a project
+ */
+export function getJournalPath(projectPath: string): string {
+    return join(getHarnessDir(projectPath), 'memory.jsonl');
+}
+
+/**
+ * JSONL backend - each save appends only the changed entries
+ */
+export function createJournalBackend(projectPath: string): MemoryBackend {
+    const path = getJournalPath(projectPath);
+
+    async function read(): Promise<JournalState | null> {
+        if (!existsSync(path)) return null;
+
+        const content = await readFile(path, 'utf-8');
+        const byId = new Map<string, MemoryEntry>();
+        const rejected: unknown[] = [];
+        let header: Extract<JournalRecord, { op: 'header' }> | undefined;
+        let lastUpdated = 0;
+        let records = 0;
+
+        for (const line of content.split('\n')) {
+            if (!line.trim()) continue;
+
+            let record: JournalRecord;
+            try {
+                record = JSON.parse(line) as JournalRecord;
+            } catch {
+                rejected.push(line);
+                continue;
+            }
+
+            if (record.op === 'header') {
+                header = record;
+                continue;
+            }
+
+            records++;
+            lastUpdated = Math.max(lastUpdated, record.at ?? 0);
+            if (record.op === 'delete') {
+                byId.delete(record.id);
+            } else if (record.op === 'put') {
+                const entry = normalizeMemoryEntry(record.entry, record.at || undefined);
+                if (entry) {
+                    byId.set(entry.id, entry);
+                } else {
+                    rejected.push(record.entry);
+                }
+            }
+        }
+
+        const version = header?.version ?? MEMORY_STORE_VERSION;
+        return {
+            result: {
+                store: {
+                    version: MEMORY_STORE_VERSION,
+                    projectId: header?.projectId ?? getProjectId(projectPath),
+                    lastUpdated: lastUpdated || header?.createdAt || Date.now(),
+                    entries: [...byId.values()],
+                },
+                sourceVersion: version,
+                migrated: false,
+                rejected,
+                readOnly: version > MEMORY_STORE_VERSION,
+            },
+            records,
+            endsWithNewline: content.length === 0 || content.endsWith('\n'),
+        };
+    }
+
+    async function readWritable(): Promise<JournalState | null> {
+        const state = await read();
+        if (state?.result.readOnly) {
+            throw new MemoryFormatError(
+                `memory.jsonl was written by a newer harness (format v${state.result.sourceVersion})`
+            );
+        }
+        return state;
+    }
+
+    /**
+     * Rewrite the journal as one put per live entry (temp file + rename)
+     */
+    async function compact(store: MemoryStore): Promise<void> {
+        const now = Date.now();
+        const records: JournalRecord[] = [
+            { op: 'header', version: MEMORY_STORE_VERSION, projectId: store.projectId, createdAt: now },
+            ...store.entries.map((entry): JournalRecord => ({ op: 'put', entry, at: now })),
+        ];
+
+        const tempPath = `${path}.${process.pid}.${randomUUID()}.tmp`;
+        await mkdir(dirname(path), { recursive: true });
+        try {
+            await writeFile(tempPath, records.map((r) => JSON.stringify(r)).join('\n') + '\n');
+            await rename(tempPath, path);
+        } catch (error) {
+            await rm(tempPath, { force: true });
+            throw error;
+        }
+    }
+
+    /**
+     * Append changes on top of `state`, compacting when the log has grown too long
+     */
+    async function commit(state: JournalState | null, changes: MemoryChanges): Promise<MemoryStore> {
+        const current = state?.result.store ?? createMemoryStore(getProjectId(projectPath));
+        const next = applyMemoryChanges(current, changes);
+        const added = changes.upserts.length + changes.deletes.length;
+
+        if (!state || state.records + added > next.entries.length + COMPACT_SLACK) {
+            await compact(next);
+            return next;
+        }
+
+        if (added > 0) {
+            const now = Date.now();
+            const records: JournalRecord[] = [
+                ...changes.deletes.map((id): JournalRecord => ({ op: 'delete', id, at: now })),
+                ...changes.upserts.map((entry): JournalRecord => ({ op: 'put', entry, at: now })),
+            ];
+            const prefix = state.endsWithNewline ? '' : '\n';
+            await appendFile(path, prefix + records.map((r) => JSON.stringify(r)).join('\n') + '\n');
+        }
+
+        return next;
+    }
+
+    return {
+        kind: 'jsonl',
+        path,
+        exists: () => existsSync(path),
+
+        async load() {
+            return (await read())?.result ?? null;
+        },
+
+        save(base, local) {
+            return withMemoryLock(projectPath, async () =>
+                commit(await readWritable(), diffMemoryStores(base, local))
+            );
+        },
+
+        update(fn) {
+            return withMemoryLock(projectPath, async () => {
+                const state = await readWritable();
+                const current = state?.result.store ?? createMemoryStore(getProjectId(projectPath));
+                return commit(state, diffMemoryStores(current, await fn(current)));
+            });
+        },
+
+        replace(store) {
+            return withMemoryLock(projectPath, () => compact(store));
+        },
+
+        async backup(reason) {
+            const backupPath = `${path}.${reason}-${Date.now()}.bak`;
+            await copyFile(path, backupPath);
+            return backupPath;
+        },
+    };
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { applyRetention, formatRetentionReport, memoryValue } from './memory-retention.js';
+import type { MemoryEntry, MemoryStore } from './types.js';
+
+const NOW = new Date('2026-03-01T12:00:00Z').getTime();
+const DAY = 24 * 60 * 60 * 1000;
+
+beforeEach(() => {
+    vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+function entry(id: string, extra: Partial<MemoryEntry> = {}): MemoryEntry {
+    return { id, timestamp: NOW, sessionId: 'current', type: 'finding', content: `Finding ${id}`, importance: 0.5, ...extra };
+}
+
+function store(entries: MemoryEntry[]): MemoryStore {
+    return { version: 1, projectId: 'project', lastUpdated: NOW - DAY, entries };
+}
+
+const ids = (entries: MemoryEntry[]) => entries.map((e) => e.id);
+
+describe('memoryValue', () => {
+    it('weighs importance over recency', () => {
+        expect(memoryValue(entry('a', { importance: 1 }), NOW)).toBeCloseTo(1);
+        expect(memoryValue(entry('b', { importance: 0, timestamp: NOW - 14 * DAY }), NOW)).toBeCloseTo(0.15);
+    });
+});
+
+describe('applyRetention', () => {
+    it('prunes old entries but keeps important and pinned ones', async () => {
+        const old = NOW - 40 * DAY;
+        const { store: result, report } = await applyRetention(store([
+            entry('old', { timestamp: old }),
+            entry('important', { timestamp: old, importance: 0.9 }),
+            entry('pinned', { timestamp: old, pinned: true }),
+            entry('fresh'),
+        ]), { maxEntries: 100, pruneAfterDays: 30 });
+
+        expect(ids(result.entries)).toEqual(['important', 'pinned', 'fresh']);
+        expect(ids(report.pruned)).toEqual(['old']);
+        expect(report.compressedSessions).toEqual([]);
+    });
+
+    it('compresses the oldest sessions first, never the active one, until under the cap', async () => {
+        const session = (id: string, age: number) => [1, 2, 3].map((n) =>
+            entry(`${id}-${n}`, { sessionId: id, type: 'decision', content: `${id} decision ${n} about topic${n}`, timestamp: NOW - age }));
+        const input = store([...session('oldest', 3 * DAY), ...session('older', 2 * DAY), ...session('current', 0)]);
+
+        const { store: result, report } = await applyRetention(input, { maxEntries: 7, pruneAfterDays: 30 }, { activeSessionId: 'current' });
+
+        expect(report.compressedSessions).toEqual(['oldest']);
+        expect(result.entries).toHaveLength(7);
+        expect(result.entries.filter((e) => e.type === 'summary').map((e) => e.sessionId)).toEqual(['oldest']);
+        expect(report.evicted).toEqual([]);
+    });
+
+    it('evicts the lowest-value entries and never pinned ones', async () => {
+        const { store: result, report } = await applyRetention(store([
+            entry('pinned', { importance: 0, timestamp: NOW - 20 * DAY, pinned: true }),
+            entry('low', { importance: 0.1 }),
+            entry('stale', { importance: 0.3, timestamp: NOW - 20 * DAY }),
+            entry('high', { importance: 0.9 }),
+        ]), { maxEntries: 2, pruneAfterDays: 30 }, { activeSessionId: 'current' });
+
+        // 0.3 importance but three weeks old is worth less than fresh 0.1 importance
+        expect(ids(report.evicted)).toEqual(['stale', 'low']);
+        expect(ids(result.entries)).toEqual(['pinned', 'high']);
+        expect(result.lastUpdated).toBe(NOW);
+    });
+
+    it('lets an all-pinned store exceed the cap', async () => {
+        const pinned = [1, 2, 3].map((n) => entry(`p${n}`, { pinned: true }));
+
+        const { store: result, report } = await applyRetention(store(pinned), { maxEntries: 1, pruneAfterDays: 30 }, { activeSessionId: 'current' });
+
+        expect(result.entries).toHaveLength(3);
+        expect(report.evicted).toEqual([]);
+    });
+});
+
+describe('formatRetentionReport', () => {
+    it('summarizes what happened', () => {
+        expect(formatRetentionReport({
+            pruned: [entry('a')],
+            compressedSessions: ['s1', 's2'],
+            evicted: [entry('b'), entry('c')],
+        })).toBe('Memory retention: pruned 1 old, compressed 2 sessions, evicted 2 lowest-value');
+    });
+
+    it('returns null when nothing changed', () => {
+        expect(formatRetentionReport({ pruned: [], compressedSessions: [], evicted: [] })).toBeNull();
+    });
+});
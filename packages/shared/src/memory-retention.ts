@@ -0,0 +1,108 @@
+/**
+ * OpenCode Harness - Memory Retention
+ * Age pruning plus capacity-based compression/eviction
+ */
+
+import type { HarnessConfig, MemoryEntry, MemoryStore } from './types.js';
+import { pruneOldMemories } from './memory-format.js';
+import { compressMemories, createDeterministicCompressor, type MemoryCompressor } from './memory-compression.js';
+import { recencyScore } from './memory-index.js';
+
+export type RetentionPolicy = Pick<HarnessConfig['memory'], 'maxEntries' | 'pruneAfterDays'>;
+
+export interface RetentionOptions {
+    compressor?: MemoryCompressor;
+    /** Session still being written to; never compressed */
+    activeSessionId?: string;
+}
+
+/**
+ * What retention removed from the store
+ */
+export interface RetentionReport {
+    pruned: MemoryEntry[];
+    compressedSessions: string[];
+    evicted: MemoryEntry[];
+}
+
+/**
+ * Value used to pick eviction victims (lowest goes first)
+ */
+export function memoryValue(entry: MemoryEntry, now: number = Date.now()): number {
+    return entry.importance * 0.7 + recencyScore(entry.timestamp, now) * 0.3;
+}
+
+/**
+ * Apply the retention policy (immutable)
+ *
+ * 1. Drop entries older than `pruneAfterDays` (high-importance ones survive)
+ * 2. While over `maxEntries`, compress the oldest sessions
+ * 3. If still over, evict the lowest-value entries
+ * Pinned entries are never removed, so a store of pinned entries may exceed the cap
+ */
+export async function applyRetention(
+    store: MemoryStore,
+    policy: RetentionPolicy,
+    options: RetentionOptions = {}
+): Promise<{ store: MemoryStore; report: RetentionReport }> {
+    const compressor = options.compressor ?? createDeterministicCompressor();
+    const report: RetentionReport = { pruned: [], compressedSessions: [], evicted: [] };
+
+    let current = pruneOldMemories(store, policy.pruneAfterDays);
+    report.pruned = diffEntries(store, current);
+
+    if (current.entries.length > policy.maxEntries) {
+        for (const sessionId of sessionsOldestFirst(current, options.activeSessionId)) {
+            const before = current.entries.length;
+            current = await compressMemories(current, sessionId, compressor, { minEntries: 3 });
+            if (current.entries.length < before) report.compressedSessions.push(sessionId);
+            if (current.entries.length <= policy.maxEntries) break;
+        }
+    }
+
+    const excess = current.entries.length - policy.maxEntries;
+    if (excess > 0) {
+        const now = Date.now();
+        const victims = current.entries
+            .filter((e) => !e.pinned)
+            .sort((a, b) => memoryValue(a, now) - memoryValue(b, now))
+            .slice(0, excess);
+        const ids = new Set(victims.map((e) => e.id));
+
+        current = {
+            ...current,
+            lastUpdated: now,
+            entries: current.entries.filter((e) => !ids.has(e.id)),
+        };
+        report.evicted = victims;
+    }
+
+    return { store: current, report };
+}
+
+/**
+ * One-line description of a retention run, or null if nothing happened
+ */
+export function formatRetentionReport(report: RetentionReport): string | null {
+    const parts: string[] = [];
+    if (report.pruned.length > 0) parts.push(`pruned ${report.pruned.length} old`);
+    if (report.compressedSessions.length > 0) parts.push(`compressed ${report.compressedSessions.length} sessions`);
+    if (report.evicted.length > 0) parts.push(`evicted ${report.evicted.length} lowest-value`);
+    return parts.length > 0 ? `Memory retention: ${parts.join(', ')}` : null;
+}
+
+// Helpers
+
+function diffEntries(before: MemoryStore, after: MemoryStore): MemoryEntry[] {
+    const kept = new Set(after.entries.map((e) => e.id));
+    return before.entries.filter((e) => !kept.has(e.id));
+}
+
+function sessionsOldestFirst(store: MemoryStore, activeSessionId?: string): string[] {
+    const latest = new Map<string, number>();
+    for (const entry of store.entries) {
+        if (entry.sessionId === activeSessionId) continue;
+        latest.set(entry.sessionId, Math.max(latest.get(entry.sessionId) ?? 0, entry.timestamp));
+    }
+    return [...latest.entries()].sort((a, b) => a[1] - b[1]).map(([id]) => id);
+}
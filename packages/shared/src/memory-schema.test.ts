@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeMemoryEntry, parseMemoryStore } from './memory-schema.js';
+
+const entry = { id: 'a', type: 'decision', content: 'Use vitest' };
+
+describe('normalizeMemoryEntry', () => {
+    it('keeps a valid timestamp', () => {
+        expect(normalizeMemoryEntry({ ...entry, timestamp: 1234 }, 5000)?.timestamp).toBe(1234);
+    });
+
+    it.each([undefined, 0, -1, 'yesterday', Number.NaN])('replaces timestamp %s with the fallback', (timestamp) => {
+        expect(normalizeMemoryEntry({ ...entry, timestamp }, 5000)?.timestamp).toBe(5000);
+    });
+});
+
+describe('parseMemoryStore', () => {
+    it("dates entries without a timestamp at the store's lastUpdated", () => {
+        const result = parseMemoryStore({ version: 1, lastUpdated: 5000, entries: [entry] }, 'project');
+
+        expect(result.store.entries[0].timestamp).toBe(5000);
+        expect(result.rejected).toEqual([]);
+    });
+
+    it('dates them now when the store has no lastUpdated either', () => {
+        const before = Date.now();
+        const result = parseMemoryStore({ entries: [entry] }, 'project');
+
+        expect(result.store.entries[0].timestamp).toBeGreaterThanOrEqual(before);
+        expect(result.store.lastUpdated).toBe(result.store.entries[0].timestamp);
+    });
+});
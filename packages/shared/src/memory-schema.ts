@@ -0,0 +1,166 @@
+/**
+ * OpenCode Harness - Memory Schema
+ * Validation and migration for the on-disk memory store
+ */
+
+import type { MemoryEntry, MemoryStore, MemoryType } from './types.js';
+
+/**
+ * Current on-disk memory store version
+ */
+export const MEMORY_STORE_VERSION = 1;
+
+/**
+ * Version reported for the pre-MemoryStore `{ tracked, savedAt }` counter file
+ */
+export const LEGACY_MEMORY_VERSION = 0;
+
+export const MEMORY_TYPES: readonly MemoryType[] = [
+    'decision',
+    'finding',
+    'error',
+    'preference',
+    'context',
+    'summary',
+];
+
+/**
+ * Raised when a memory file cannot be interpreted at all
+ */
+export class MemoryFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MemoryFormatError';
+    }
+}
+
+/**
+ * Result of reading a memory file of any known version
+ */
+export interface MemoryStoreParseResult {
+    store: MemoryStore;
+    /** Version found on disk (0 = legacy counter file) */
+    sourceVersion: number;
+    /** Store was upgraded from an older format */
+    migrated: boolean;
+    /** Raw entries that could not be repaired and were left out of `store` */
+    rejected: unknown[];
+    /** File was written by a newer harness and must not be overwritten */
+    readOnly: boolean;
+}
+
+type Migration = (raw: Record<string, unknown>, projectId: string) => Record<string, unknown>;
+
+/**
+ * Migrations keyed by the version they upgrade from
+ */
+const MIGRATIONS: Record<number, Migration> = {
+    // Legacy plugin counters carry no memories worth keeping
+    [LEGACY_MEMORY_VERSION]: (raw, projectId) => ({
+        version: 1,
+        projectId,
+        lastUpdated: typeof raw.savedAt === 'number' ? raw.savedAt : Date.now(),
+        entries: [],
+    }),
+};
+
+/**
+ * Detect the `{ tracked, savedAt }` file written by early plugin builds
+ */
+export function isLegacyMemoryFile(raw: unknown): boolean {
+    return isObject(raw) && !('entries' in raw) && isObject(raw.tracked);
+}
+
+/**
+ * Detect the on-disk version of a parsed memory file
+ */
+export function detectMemoryVersion(raw: unknown): number {
+    if (isLegacyMemoryFile(raw)) return LEGACY_MEMORY_VERSION;
+
+    if (!isObject(raw) || !Array.isArray(raw.entries)) {
+        throw new MemoryFormatError('Memory file is not a memory store');
+    }
+
+    // Stores written before the version field was enforced
+    if (raw.version === undefined) return 1;
+
+    if (typeof raw.version !== 'number' || !Number.isInteger(raw.version) || raw.version < 1) {
+        throw new MemoryFormatError(`Invalid memory store version: ${String(raw.version)}`);
+    }
+
+    return raw.version;
+}
+
+/**
+ * Validate and repair a single entry, returning null if it is unusable.
+ * A missing timestamp becomes `fallbackTimestamp` (e.g. the store's
+ * lastUpdated), so retention doesn't treat the entry as ancient.
+ */
+export function normalizeMemoryEntry(raw: unknown, fallbackTimestamp: number = Date.now()): MemoryEntry | null {
+    if (!isObject(raw)) return null;
+    if (typeof raw.id !== 'string' || raw.id.length === 0) return null;
+    if (typeof raw.content !== 'string') return null;
+    if (!MEMORY_TYPES.includes(raw.type as MemoryType)) return null;
+
+    const importance = typeof raw.importance === 'number' && Number.isFinite(raw.importance)
+        ? Math.max(0, Math.min(1, raw.importance))
+        : 0.5;
+
+    return {
+        id: raw.id,
+        timestamp: typeof raw.timestamp === 'number' && Number.isFinite(raw.timestamp) && raw.timestamp > 0
+            ? raw.timestamp
+            : fallbackTimestamp,
+        sessionId: typeof raw.sessionId === 'string' ? raw.sessionId : 'unknown',
+        type: raw.type as MemoryType,
+        content: raw.content,
+        importance,
+        pinned: raw.pinned === true ? true : undefined,
+        metadata: isObject(raw.metadata) ? raw.metadata : undefined,
+    };
+}
+
+/**
+ * Parse a memory file of any known version into the current MemoryStore shape
+ */
+export function parseMemoryStore(raw: unknown, projectId: string): MemoryStoreParseResult {
+    const sourceVersion = detectMemoryVersion(raw);
+    let data = raw as Record<string, unknown>;
+
+    for (let version = sourceVersion; version < MEMORY_STORE_VERSION; version++) {
+        const migrate = MIGRATIONS[version];
+        if (!migrate) {
+            throw new MemoryFormatError(`No migration from memory store version ${version}`);
+        }
+        data = migrate(data, projectId);
+    }
+
+    const lastUpdated = typeof data.lastUpdated === 'number' ? data.lastUpdated : Date.now();
+    const entries: MemoryEntry[] = [];
+    const rejected: unknown[] = [];
+    for (const item of data.entries as unknown[]) {
+        const entry = normalizeMemoryEntry(item, lastUpdated);
+        if (entry) {
+            entries.push(entry);
+        } else {
+            rejected.push(item);
+        }
+    }
+
+    return {
+        store: {
+            version: MEMORY_STORE_VERSION,
+            projectId: typeof data.projectId === 'string' ? data.projectId : projectId,
+            lastUpdated,
+            entries,
+        },
+        sourceVersion,
+        migrated: sourceVersion < MEMORY_STORE_VERSION,
+        rejected,
+        readOnly: sourceVersion > MEMORY_STORE_VERSION,
+    };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,281 @@
+/**
+ * OpenCode Harness - Memory SQLite Backend
+ * Indexed storage for large memory stores
+ */
+
+import { copyFile, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, dirname } from 'path';
+import type { MemoryEntry, MemoryStore } from './types.js';
+import { getHarnessDir } from './config.js';
+import { diffMemoryStores, type MemoryChanges } from './memory-format.js';
+import {
+    MEMORY_STORE_VERSION,
+    MemoryFormatError,
+    normalizeMemoryEntry,
+    type MemoryStoreParseResult,
+} from './memory-schema.js';
+import { getProjectId } from './memory-file.js';
+import type { MemoryBackend } from './memory-backend.js';
+
+/**
+ * Minimal synchronous driver surface shared by node:sqlite, bun:sqlite and better-sqlite3
+ */
+interface SqliteStatement {
+    run(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+}
+
+interface SqliteDatabase {
+    exec(sql: string): unknown;
+    prepare(sql: string): SqliteStatement;
+    close(): unknown;
+}
+
+type SqliteRow = Record<string, unknown>;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS memories (
+    id TEXT PRIMARY KEY,
+    timestamp INTEGER NOT NULL,
+    session_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    content TEXT NOT NULL,
+    importance REAL NOT NULL,
+    pinned INTEGER NOT NULL DEFAULT 0,
+    metadata TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_memories_type ON memories(type);
+CREATE INDEX IF NOT EXISTS idx_memories_session ON memories(session_id);
+CREATE INDEX IF NOT EXISTS idx_memories_timestamp ON memories(timestamp);
+`;
+
+/**
+ * Get the SQLite database path for a project
+ */
+export function getSqlitePath(projectPath: string): string {
+    return join(getHarnessDir(projectPath), 'memory.db');
+}
+
+/**
+ * SQLite backend - one row per entry, written in transactions
+ *
+ * Uses whichever driver the runtime offers: node:sqlite (Node 22.5+),
+ * bun:sqlite, or the optional better-sqlite3 package.
+ */
+export function createSqliteBackend(projectPath: string): MemoryBackend {
+    const path = getSqlitePath(projectPath);
+    let db: SqliteDatabase | null = null;
+
+    async function open(): Promise<SqliteDatabase> {
+        if (db) return db;
+
+        await mkdir(dirname(path), { recursive: true });
+        const opened = await openDatabase(path);
+        opened.exec('PRAGMA journal_mode = WAL; PRAGMA busy_timeout = 10000;');
+        opened.exec(SCHEMA);
+
+        const insertMeta = opened.prepare('INSERT OR IGNORE INTO meta (key, value) VALUES (?, ?)');
+        insertMeta.run('version', String(MEMORY_STORE_VERSION));
+        insertMeta.run('projectId', getProjectId(projectPath));
+        insertMeta.run('lastUpdated', String(Date.now()));
+
+        db = opened;
+        return opened;
+    }
+
+    function read(conn: SqliteDatabase): MemoryStoreParseResult {
+        const meta = new Map<string, string>();
+        for (const row of conn.prepare('SELECT key, value FROM meta').all() as SqliteRow[]) {
+            meta.set(String(row.key), String(row.value));
+        }
+
+        const lastUpdated = parseInt(meta.get('lastUpdated') ?? '', 10) || Date.now();
+        const entries: MemoryEntry[] = [];
+        const rejected: unknown[] = [];
+        const rows = conn.prepare('SELECT * FROM memories ORDER BY timestamp').all() as SqliteRow[];
+        for (const row of rows) {
+            const entry = normalizeMemoryEntry(rowToEntry(row), lastUpdated);
+            if (entry) {
+                entries.push(entry);
+            } else {
+                rejected.push(row);
+            }
+        }
+
+        const version = parseInt(meta.get('version') ?? '', 10) || MEMORY_STORE_VERSION;
+        return {
+            store: {
+                version: MEMORY_STORE_VERSION,
+                projectId: meta.get('projectId') ?? getProjectId(projectPath),
+                lastUpdated,
+                entries,
+            },
+            sourceVersion: version,
+            migrated: false,
+            rejected,
+            readOnly: version > MEMORY_STORE_VERSION,
+        };
+    }
+
+    function readWritable(conn: SqliteDatabase): MemoryStore {
+        const result = read(conn);
+        if (result.readOnly) {
+            throw new MemoryFormatError(
+                `memory.db was written by a newer harness (format v${result.sourceVersion})`
+            );
+        }
+        return result.store;
+    }
+
+    function apply(conn: SqliteDatabase, changes: MemoryChanges): void {
+        const remove = conn.prepare('DELETE FROM memories WHERE id = ?');
+        const upsert = conn.prepare(
+            `INSERT OR REPLACE INTO memories
+                (id, timestamp, session_id, type, content, importance, pinned, metadata)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+        );
+
+        for (const id of changes.deletes) remove.run(id);
+        for (const entry of changes.upserts) {
+            upsert.run(
+                entry.id,
+                entry.timestamp,
+                entry.sessionId,
+                entry.type,
+                entry.content,
+                entry.importance,
+                entry.pinned ? 1 : 0,
+                entry.metadata ? JSON.stringify(entry.metadata) : null
+            );
+        }
+
+        conn.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)')
+            .run('lastUpdated', String(Date.now()));
+    }
+
+    /**
+     * Run `fn` inside a write transaction; other writers wait on busy_timeout
+     */
+    async function transaction<T>(fn: (conn: SqliteDatabase) => T | Promise<T>): Promise<T> {
+        const conn = await open();
+        conn.exec('BEGIN IMMEDIATE');
+        try {
+            const result = await fn(conn);
+            conn.exec('COMMIT');
+            return result;
+        } catch (error) {
+            conn.exec('ROLLBACK');
+            throw error;
+        }
+    }
+
+    return {
+        kind: 'sqlite',
+        path,
+        exists: () => existsSync(path),
+
+        async load() {
+            if (!existsSync(path)) return null;
+            return read(await open());
+        },
+
+        save(base, local) {
+            return transaction((conn) => {
+                readWritable(conn);
+                apply(conn, diffMemoryStores(base, local));
+                return read(conn).store;
+            });
+        },
+
+        update(fn) {
+            return transaction(async (conn) => {
+                const current = readWritable(conn);
+                const next = await fn(current);
+                apply(conn, diffMemoryStores(current, next));
+                return next;
+            });
+        },
+
+        replace(store) {
+            return transaction((conn) => {
+                readWritable(conn);
+                conn.exec('DELETE FROM memories');
+                apply(conn, { upserts: store.entries, deletes: [] });
+                conn.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)')
+                    .run('projectId', store.projectId);
+            });
+        },
+
+        async backup(reason) {
+            const conn = await open();
+            conn.exec('PRAGMA wal_checkpoint(TRUNCATE)');
+            const backupPath = `${path}.${reason}-${Date.now()}.bak`;
+            await copyFile(path, backupPath);
+            return backupPath;
+        },
+    };
+}
+
+// Helpers
+
+async function openDatabase(path: string): Promise<SqliteDatabase> {
+    // Specifiers are kept in variables so bundlers and tsc leave them alone
+    const drivers: Array<[string, (mod: unknown) => SqliteDatabase]> = [
+        ['node:sqlite', (mod) => new (getDriverClass(mod, 'DatabaseSync'))(path)],
+        ['bun:sqlite', (mod) => new (getDriverClass(mod, 'Database'))(path)],
+        ['better-sqlite3', (mod) => new (getDriverClass(mod, 'default'))(path)],
+    ];
+
+    for (const [specifier, open] of drivers) {
+        let mod: unknown;
+        try {
+            mod = await import(specifier);
+        } catch {
+            continue;
+        }
+        return open(mod);
+    }
+
+    throw new Error(
+        'The sqlite memory backend needs Node 22.5+, Bun, or the better-sqlite3 package'
+    );
+}
+
+/**
+ * The database class a driver module exports (CommonJS modules may be the class itself)
+ */
+function getDriverClass(mod: unknown, name: string): new (path: string) => SqliteDatabase {
+    const exported = typeof mod === 'object' && mod !== null ? (mod as Record<string, unknown>)[name] : undefined;
+    const candidate = exported ?? mod;
+    if (typeof candidate !== 'function') {
+        throw new Error(`SQLite driver does not export ${name}`);
+    }
+    return candidate as new (path: string) => SqliteDatabase;
+}
+
+function rowToEntry(row: SqliteRow): Record<string, unknown> {
+    let metadata: unknown;
+    if (typeof row.metadata === 'string') {
+        try {
+            metadata = JSON.parse(row.metadata);
+        } catch {
+            metadata = undefined;
+        }
+    }
+
+    return {
+        id: row.id,
+        timestamp: Number(row.timestamp),
+        sessionId: row.session_id,
+        type: row.type,
+        content: row.content,
+        importance: Number(row.importance),
+        pinned: Number(row.pinned) === 1,
+        metadata,
+    };
+}
@@ -0,0 +1,77 @@
+/**
+ * OpenCode Harness - Task Results
+ * Outcomes reported by `harness-complete`, one file per task in
+ * .opencode/.harness/results/ (read by the CLI when IPC is unavailable)
+ */
+
+import { readFile, writeFile, mkdir, rename, rm } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, dirname } from 'path';
+import { randomUUID } from 'crypto';
+import type { TaskResult } from './types.js';
+import { getHarnessDir } from './config.js';
+
+/**
+ * Environment variable the CLI uses to tell the plugin which task it is running
+ */
+export const TASK_ID_ENV = 'OC_HARNESS_TASK_ID';
+
+/**
+ * Get the directory holding task results for a project
+ */
+export function getResultsDir(projectPath: string): string {
+    return join(getHarnessDir(projectPath), 'results');
+}
+
+/**
+ * Get the result path for a task (ids are sanitized for the filesystem)
+ */
+export function getTaskResultPath(projectPath: string, taskId: string): string {
+    return join(getResultsDir(projectPath), `${taskId.replace(/[^\w.-]/g, '_')}.json`);
+}
+
+/**
+ * Save a task's result (temp file + rename)
+ */
+export async function writeTaskResult(projectPath: string, result: TaskResult & { taskId: string }): Promise<void> {
+    const resultPath = getTaskResultPath(projectPath, result.taskId);
+    const tempPath = `${resultPath}.${process.pid}.${randomUUID()}.tmp`;
+    await mkdir(dirname(resultPath), { recursive: true });
+
+    try {
+        await writeFile(tempPath, JSON.stringify(result, null, 2));
+        await rename(tempPath, resultPath);
+    } catch (error) {
+        await rm(tempPath, { force: true });
+        throw error;
+    }
+}
+
+/**
+ * Load a task's result, or null if none was reported (or it is unreadable)
+ */
+export async function readTaskResult(projectPath: string, taskId: string): Promise<TaskResult | null> {
+    const resultPath = getTaskResultPath(projectPath, taskId);
+    if (!existsSync(resultPath)) return null;
+
+    try {
+        const result = JSON.parse(await readFile(resultPath, 'utf-8')) as TaskResult;
+        return typeof result.status === 'string' ? result : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Remove a task's result before running it (again)
+ */
+export async function clearTaskResult(projectPath: string, taskId: string): Promise<void> {
+    await rm(getTaskResultPath(projectPath, taskId), { force: true });
+}
+
+/**
+ * Whether a result counts as success
+ */
+export function isTaskSuccess(result: TaskResult): boolean {
+    return result.status === 'completed';
+}
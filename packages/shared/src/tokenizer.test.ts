@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { createBpeTokenizer, createCharTokenizer, createTokenizer } from './tokenizer.js';
+
+describe('createCharTokenizer', () => {
+    it('charges a token per four characters, rounding up', () => {
+        const tokenizer = createCharTokenizer();
+
+        expect(tokenizer.count('')).toBe(0);
+        expect(tokenizer.count('abcd')).toBe(1);
+        expect(tokenizer.count('abcde')).toBe(2);
+    });
+});
+
+describe('createBpeTokenizer', () => {
+    it.each([
+        ['hello world', 2],
+        ['const x = 1;', 6],
+        ['你好世界', 5],
+        ['', 0],
+    ])('counts %j as %i cl100k tokens', async (text, tokens) => {
+        expect((await createBpeTokenizer()).count(text)).toBe(tokens);
+    });
+
+    it('counts special-token markers in tool output as plain text', async () => {
+        expect((await createBpeTokenizer()).count('<|endoftext|>')).toBe(7);
+    });
+});
+
+describe('createTokenizer', () => {
+    it('creates the configured kind', async () => {
+        expect((await createTokenizer()).name).toBe('chars');
+        expect((await createTokenizer('bpe')).name).toBe('bpe');
+    });
+
+    it('rejects an unknown kind', async () => {
+        await expect(createTokenizer('tiktoken' as 'bpe')).rejects.toThrow('Unknown tokenizer: tiktoken');
+    });
+});
@@ -0,0 +1,69 @@
+/**
+ * OpenCode Harness - Tokenizers
+ * Local token counting for context accounting
+ */
+
+import { Tiktoken } from 'js-tiktoken/lite';
+import type { HarnessConfig } from './types.js';
+
+export type TokenizerKind = HarnessConfig['context']['tokenizer'];
+
+/**
+ * Counts tokens in text without calling a model
+ */
+export interface Tokenizer {
+    name: string;
+    count(text: string): number;
+}
+
+/**
+ * Create the tokenizer selected by `HarnessConfig.context.tokenizer`
+ */
+export async function createTokenizer(kind: TokenizerKind = 'chars'): Promise<Tokenizer> {
+    switch (kind) {
+        case 'chars':
+            return createCharTokenizer();
+        case 'bpe':
+            return createBpeTokenizer();
+        default:
+            throw new Error(`Unknown tokenizer: ${String(kind)}`);
+    }
+}
+
+/**
+ * Character heuristic - fast, usually within ~20% for English and code
+ */
+export function createCharTokenizer(charsPerToken: number = 4): Tokenizer {
+    return {
+        name: 'chars',
+        count(text: string): number {
+            return Math.ceil(text.length / charsPerToken);
+        },
+    };
+}
+
+/** cl100k encoder, shared by every BPE tokenizer once its vocabulary has loaded */
+let cl100k: Promise<Tiktoken> | null = null;
+
+/**
+ * Byte-pair encoding with the cl100k vocabulary (GPT-4-era models; other
+ * models' own tokenizers differ by a few percent). The ~1 MB vocabulary is
+ * loaded on first use.
+ */
+export async function createBpeTokenizer(): Promise<Tokenizer> {
+    cl100k ??= import('js-tiktoken/ranks/cl100k_base')
+        .then(({ default: ranks }) => new Tiktoken(ranks))
+        .catch((error: unknown) => {
+            cl100k = null;
+            throw error;
+        });
+    const encoder = await cl100k;
+
+    return {
+        name: 'bpe',
+        count(text: string): number {
+            // Special-token markers in tool output are counted as plain text
+            return encoder.encode(text, [], []).length;
+        },
+    };
+}
@@ -17,6 +17,7 @@ export interface MemoryEntry {
     type: MemoryType;
     content: string;
     importance: number; // 0-1 scale
+    pinned?: boolean;   // Protected from pruning, compression and eviction
     metadata?: Record<string, unknown>;
 }
 
@@ -50,7 +51,21 @@ export interface ContextItem {
     type: 'file' | 'function' | 'class' | 'search' | 'command';
     viewedAt: number;
     importance: number;
+    tokens: number; // Measured size of what was last seen
     summary?: string;
+    /** Line span for symbols (1-based, inclusive) */
+    range?: { start: number; end: number };
+    /** Content hash and mtime of a file when it was read */
+    hash?: string;
+    mtime?: number;
+    /** Set when the file may have changed since it was viewed */
+    stale?: { reason: string; at: number };
+    /** Direct views (0 = only known from an outline) */
+    viewCount?: number;
+    /** Last write/edit by a tool after it was read */
+    editedAt?: number;
+    /** Last time it showed up in a failing command's output */
+    failedAt?: number;
 }
 
 /**
@@ -63,6 +78,22 @@ export interface ContextState {
     lastCompactionAt?: number;
 }
 
+/**
+ * One compaction of a session's context
+ */
+export interface CompactionRecord {
+    sessionId: string;
+    at: number;
+    reason: 'threshold' | 'manual';
+    /** Share of maxTokens in use when it ran */
+    usage: number;
+    tokensBefore: number;
+    tokensAfter: number;
+    itemsPruned: number;
+    /** Memory entry holding the snapshot, if memory is enabled */
+    summaryId?: string;
+}
+
 // ============================================================================
 // Task & PRD Types
 // ============================================================================
@@ -84,6 +115,20 @@ export interface Task {
     error?: string;
 }
 
+/**
+ * Outcome the agent reports through the `harness-complete` tool
+ */
+export interface TaskResult {
+    /** Task id given by the CLI; missing when the plugin runs on its own */
+    taskId?: string;
+    sessionId?: string;
+    status: 'completed' | 'failed' | 'blocked';
+    summary: string;
+    filesChanged: string[];
+    followUps: string[];
+    at: number;
+}
+
 export type TaskStatus =
     | 'pending'
     | 'running'
@@ -100,6 +145,71 @@ export interface TaskList {
     tasks: Task[];
 }
 
+// ============================================================================
+// Verification Types
+// ============================================================================
+
+export type VerificationKind = 'test' | 'lint' | 'typecheck' | 'custom';
+
+/**
+ * A check the harness runs itself after each iteration
+ */
+export interface VerificationCommand {
+    name: string;
+    kind: VerificationKind;
+    /** Shell command, run from the project root */
+    command: string;
+    timeoutMs?: number;
+    /** Reported, but a failure does not fail the gate */
+    optional?: boolean;
+}
+
+export interface VerificationResult {
+    name: string;
+    kind: VerificationKind;
+    command: string;
+    passed: boolean;
+    exitCode: number | null;
+    timedOut: boolean;
+    durationMs: number;
+    /** Tail of stdout+stderr, trimmed to `verifyOutputLines` */
+    output: string;
+    optional?: boolean;
+}
+
+/**
+ * Outcome of running every check once
+ */
+export interface VerificationReport {
+    passed: boolean;
+    results: VerificationResult[];
+    at: number;
+}
+
+/**
+ * Working-tree changes, as counted by `git diff --numstat`
+ */
+export interface DiffStat {
+    files: number;
+    insertions: number;
+    deletions: number;
+    paths: string[];
+}
+
+/**
+ * What happened in one iteration of a task
+ */
+export interface IterationAttempt {
+    iteration: number;
+    /** Agent-reported status, or how the iteration ended without one */
+    outcome: TaskResult['status'] | 'error' | 'unreported';
+    summary?: string;
+    error?: string;
+    failedChecks: Array<{ name: string; failure: string; excerpt?: string }>;
+    diff?: DiffStat;
+    durationMs: number;
+}
+
 // ============================================================================
 // Session Types
 // ============================================================================
@@ -139,7 +249,21 @@ export type IPCMessage =
     | { type: 'context.update'; payload: ContextState }
     | { type: 'context.compact'; payload: { reason: string } }
     | { type: 'task.start'; payload: Task }
-    | { type: 'task.complete'; payload: { taskId: string; success: boolean } };
+    | { type: 'task.complete'; payload: { taskId: string; success: boolean; result?: TaskResult } };
+
+export type IPCRole = 'plugin' | 'cli';
+
+/**
+ * Control frames: the version handshake and protocol errors
+ */
+export type IPCControl =
+    | { type: 'hello'; payload: { version: number; role: IPCRole; pid: number } }
+    | { type: 'error'; payload: { message: string } };
+
+/**
+ * Anything sent over the wire (one JSON object per line)
+ */
+export type IPCFrame = IPCControl | IPCMessage;
 
 // ============================================================================
 // Configuration Types
@@ -154,25 +278,49 @@ export interface HarnessConfig {
         enabled: boolean;
         maxEntries: number;
         pruneAfterDays: number;
+        /** Storage backend for memories */
+        backend: 'json' | 'jsonl' | 'sqlite';
     };
     context: {
         maxTokens: number;
         compactionThreshold: number;
         autoCompact: boolean;
+        injectMemories: boolean;
+        memoryTokens: number; // Budget for memories injected at session start
+        tokenizer: 'chars' | 'bpe'; // How tool output is measured
     };
     tasks: {
         maxRetries: number;
         retryDelay: number;
         runTestsAfter: boolean;
         runLintAfter: boolean;
+        /** Checks run after every iteration; empty = detect from package.json scripts */
+        verify: VerificationCommand[];
+        verifyTimeout: number; // ms per command
+        verifyOutputLines: number; // Output lines kept per failing check
+        attemptHistoryTokens: number; // Budget for the "Previous attempts" prompt section
     };
     parallel: {
         maxAgents: number;
         useWorktrees: boolean;
         branchPrefix: string;
+        /** How finished task branches are brought into the base branch */
+        mergeStrategy: 'merge' | 'rebase';
+        /** On a merge conflict: fail the task, or ask the agent to resolve it */
+        onConflict: 'abort' | 'agent';
     };
 }
 
+/**
+ * Values accepted for `memory.backend`
+ */
+export const MEMORY_BACKENDS: readonly HarnessConfig['memory']['backend'][] = ['json', 'jsonl', 'sqlite'];
+
+/**
+ * Values accepted for `context.tokenizer`
+ */
+export const TOKENIZERS: readonly HarnessConfig['context']['tokenizer'][] = ['chars', 'bpe'];
+
 /**
  * Default configuration
  */
@@ -182,22 +330,32 @@ export const DEFAULT_CONFIG: HarnessConfig = {
         enabled: true,
         maxEntries: 1000,
         pruneAfterDays: 30,
+        backend: 'json',
     },
     context: {
         maxTokens: 100000,
         compactionThreshold: 0.8,
         autoCompact: true,
+        injectMemories: true,
+        memoryTokens: 2000,
+        tokenizer: 'chars',
     },
     tasks: {
         maxRetries: 3,
         retryDelay: 1000,
         runTestsAfter: true,
         runLintAfter: true,
+        verify: [],
+        verifyTimeout: 300000,
+        verifyOutputLines: 40,
+        attemptHistoryTokens: 1500,
     },
     parallel: {
         maxAgents: 3,
         useWorktrees: true,
         branchPrefix: 'harness/',
+        mergeStrategy: 'merge',
+        onConflict: 'abort',
     },
 };
 